@@ -0,0 +1,9 @@
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/test'],
+  setupFiles: ['<rootDir>/test/setup.ts'],
+  // Tests compile straight to CommonJS; ts-jest only supports the build's NodeNext modules in isolatedModules mode
+  transform: {
+    '^.+\\.ts$': ['ts-jest', { tsconfig: { module: 'commonjs', esModuleInterop: true, strict: true, resolveJsonModule: true } }]
+  }
+};
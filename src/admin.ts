@@ -0,0 +1,269 @@
+import crypto from 'crypto';
+import { IncomingMessage, ServerResponse } from 'http';
+import { BountyRecord, CommandRecord, PendingTransaction, RouteHandler, SpendRecord } from './types';
+import { ADMIN_API_TOKEN } from './config';
+import { commentOnIssueUrl, getIssueInfoFromUrl, getRateLimit, pingGitHub } from './github';
+import { connection } from './solana';
+import { gibwork } from './gibwork';
+import { getWalletBalances } from './balances';
+import { releaseBudget } from './budgets';
+import { findKnownToken } from './tokens';
+import { checkForcedReplay, getReplayBlocker, replayCommand, SETTLED_STATUSES } from './replay';
+import { queueIssueJob } from './processor';
+import {
+  commandKey,
+  findCommandRecord,
+  getCommandRecord,
+  getEntry,
+  getPendingTransactions,
+  listEntries,
+  saveCommandRecord,
+  saveTransactionRecord
+} from './store';
+import {
+  githubRateLimitRemaining,
+  pendingTransactions,
+  renderMetrics,
+  walletBalance
+} from './metrics';
+import { logger, recordAudit } from './logger';
+
+// How long a dependency may take to answer a health check
+const HEALTH_CHECK_TIMEOUT_MS = 5000;
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'content-type': 'application/json' }).end(`${JSON.stringify(body, null, 2)}\n`);
+};
+
+const getQuery = (req: IncomingMessage): URLSearchParams => new URL(req.url || '/', 'http://localhost').searchParams;
+
+// Check the bearer token, comparing hashes so the comparison takes the same time for any input
+const isAuthorized = (req: IncomingMessage): boolean => {
+  const header = req.headers.authorization || '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+  const hash = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return Boolean(token) && crypto.timingSafeEqual(hash(token), hash(ADMIN_API_TOKEN));
+};
+
+// Only let requests with the admin token through to a handler
+const requireAdmin = (handler: RouteHandler): RouteHandler => async (req, res) => {
+  if (!isAuthorized(req)) {
+    res.writeHead(401, { 'www-authenticate': 'Bearer' }).end();
+    return;
+  }
+  
+  await handler(req, res);
+};
+
+// Time a dependency check, failing it if it takes too long
+const runHealthCheck = async (check: () => Promise<unknown>): Promise<{ ok: boolean; latencyMs: number; error?: string }> => {
+  const startedAt = Date.now();
+  let timer: NodeJS.Timeout | undefined;
+  
+  try {
+    await Promise.race([
+      check(),
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`No answer within ${HEALTH_CHECK_TIMEOUT_MS}ms`)), HEALTH_CHECK_TIMEOUT_MS);
+      })
+    ]);
+    return { ok: true, latencyMs: Date.now() - startedAt };
+  } catch (error) {
+    return { ok: false, latencyMs: Date.now() - startedAt, error: (error as Error).message };
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// GET /healthz: whether GitHub, the Solana RPC node and Gib.work are reachable
+const handleHealth: RouteHandler = async (req, res) => {
+  const [github, rpc, gibworkApi] = await Promise.all([
+    runHealthCheck(pingGitHub),
+    runHealthCheck(() => connection.getSlot()),
+    runHealthCheck(gibwork.ping)
+  ]);
+  
+  const ok = github.ok && rpc.ok && gibworkApi.ok;
+  sendJson(res, ok ? 200 : 503, { status: ok ? 'ok' : 'degraded', checks: { github, rpc, gibwork: gibworkApi } });
+};
+
+// GET /metrics: Prometheus metrics, with gauges refreshed at scrape time
+const handleMetrics: RouteHandler = async (req, res) => {
+  pendingTransactions.set(getPendingTransactions().length);
+  
+  const rateLimit = getRateLimit();
+  if (rateLimit) {
+    githubRateLimitRemaining.set(rateLimit.remaining);
+  }
+  
+  try {
+    walletBalance.reset();
+    for (const { symbol, mintAddress, balance } of await getWalletBalances()) {
+      walletBalance.set(balance, { token: symbol, mint: mintAddress });
+    }
+  } catch (error) {
+    logger.error('Error getting wallet balances for metrics', { error });
+  }
+  
+  res.writeHead(200, { 'content-type': 'text/plain; version=0.0.4' }).end(renderMetrics());
+};
+
+// GET /admin/bounties: bounties, optionally filtered by ?repo=owner/repo and ?status=
+const handleListBounties: RouteHandler = async (req, res) => {
+  const query = getQuery(req);
+  const repo = query.get('repo')?.toLowerCase();
+  const status = query.get('status');
+  
+  const bounties = listEntries<BountyRecord>('bounty').filter(bounty => {
+    const { owner, repo: name } = getIssueInfoFromUrl(bounty.issueUrl);
+    return (!repo || `${owner}/${name}`.toLowerCase() === repo) && (!status || bounty.status === status);
+  });
+  sendJson(res, 200, { bounties });
+};
+
+// GET /admin/transactions: sent transactions still waiting for confirmation
+const handleListTransactions: RouteHandler = async (req, res) => {
+  sendJson(res, 200, { transactions: getPendingTransactions() });
+};
+
+// GET /admin/commands: command records, optionally filtered by ?status=
+const handleListCommands: RouteHandler = async (req, res) => {
+  const status = getQuery(req).get('status');
+  const commands = listEntries<CommandRecord>('command').filter(command => !status || command.status === status);
+  sendJson(res, 200, { commands });
+};
+
+// GET /admin/spend: reserved and spent amounts per repository and token
+const handleSpend: RouteHandler = async (req, res) => {
+  const spend: Record<string, Record<string, { reserved: number; spent: number }>> = {};
+  
+  for (const record of listEntries<SpendRecord>('spend')) {
+    const token = findKnownToken(record.tokenAddress)?.symbol || record.tokenAddress;
+    const totals = (spend[record.repository] ||= {})[token] ||= { reserved: 0, spent: 0 };
+    totals[record.status] += record.amount;
+  }
+  
+  sendJson(res, 200, { spend });
+};
+
+// Look up the command named by ?id=, answering 400 or 404 when there is none. The ID is the
+// command's comment ID, prefixed with its origin (issue:123) when commands from several origins share it.
+const getRequestedCommand = (req: IncomingMessage, res: ServerResponse): CommandRecord | null => {
+  // Commands from the CLI have negative IDs
+  const id = getQuery(req).get('id') || '';
+  if (!/^((comment|issue|label|cli):)?-?[1-9]\d*$/.test(id)) {
+    sendJson(res, 400, { error: 'Pass the command\'s ID as ?id=, e.g. ?id=123 or ?id=issue:123' });
+    return null;
+  }
+  
+  let record: CommandRecord | undefined;
+  try {
+    record = findCommandRecord(id);
+  } catch (error) {
+    sendJson(res, 400, { error: (error as Error).message });
+    return null;
+  }
+  
+  if (!record) {
+    sendJson(res, 404, { error: `No command record for ${id}` });
+    return null;
+  }
+  
+  return record;
+};
+
+// POST /admin/commands/retry?id=[&force=true]: run a command that failed or got stuck before its
+// transaction was sent again from its comment, as if it had just been posted. A command still
+// processing is only retried when forced, once the wallet shows no transaction the bot doesn't know of.
+const handleRetryCommand: RouteHandler = async (req, res) => {
+  const record = getRequestedCommand(req, res);
+  if (!record) {
+    return;
+  }
+  
+  const force = getQuery(req).get('force') === 'true';
+  const blocker = getReplayBlocker(record, force) || (force ? await checkForcedReplay(record) : null);
+  if (blocker) {
+    sendJson(res, 409, { error: blocker });
+    return;
+  }
+  
+  sendJson(res, 202, { retrying: commandKey(record) });
+  await replayCommand(record, 'admin-api', force);
+};
+
+// Explain why a command can't be abandoned, or return null if it can
+const getAbandonBlocker = (record: CommandRecord): string | null => {
+  if (SETTLED_STATUSES.includes(record.status)) {
+    return `Command is already ${record.status}`;
+  }
+  if (record.status === 'pending_approval') {
+    return 'Command is waiting for approval; reject it with /bounty reject instead';
+  }
+  return null;
+};
+
+// POST /admin/commands/abandon?id=: give up on a stuck command and stop tracking its transaction.
+// The command is given up in its issue's queue, once any job still handling it is done.
+const handleAbandonCommand: RouteHandler = async (req, res) => {
+  const requested = getRequestedCommand(req, res);
+  if (!requested) {
+    return;
+  }
+  
+  const record = await queueIssueJob(requested.issueUrl, async () => {
+    const current = getCommandRecord(requested);
+    const blocker = current ? getAbandonBlocker(current) : `No command record for ${commandKey(requested)}`;
+    if (!current || blocker) {
+      sendJson(res, 409, { error: blocker });
+      return null;
+    }
+  
+    logger.info(`Abandoning bounty command from comment ${current.commentId} on operator request`);
+    recordAudit({
+      event: 'operator_action',
+      actor: 'admin-api',
+      issueUrl: current.issueUrl,
+      commentId: current.commentId,
+      signature: current.signature,
+      outcome: 'abandon',
+      details: { previousStatus: current.status }
+    });
+    saveCommandRecord(current, { status: 'failed', error: 'Abandoned by an operator' });
+  
+    if (current.signature) {
+      // The transaction may still land, so its budget stays spent
+      const transaction = getEntry<PendingTransaction>('transaction', current.signature);
+      if (transaction && (transaction.status === 'pending' || transaction.status === 'sending')) {
+        saveTransactionRecord({ ...transaction, status: 'failed', error: 'Abandoned by an operator', settledAt: new Date().toISOString() });
+      }
+    } else {
+      releaseBudget(current);
+    }
+    return current;
+  });
+  if (!record) {
+    return;
+  }
+  
+  await commentOnIssueUrl(
+    record.issueUrl,
+    `🛑 An operator abandoned this bounty command.` +
+    (record.signature ?
+      ` Its transaction may still have landed: [View on Solana Explorer](https://explorer.solana.com/tx/${record.signature})` :
+      ' No funds were moved.')
+  );
+  sendJson(res, 200, { abandoned: commandKey(record) });
+};
+
+// Admin API routes, keyed by "METHOD path"
+export const adminRoutes: Record<string, RouteHandler> = {
+  'GET /healthz': requireAdmin(handleHealth),
+  'GET /metrics': requireAdmin(handleMetrics),
+  'GET /admin/bounties': requireAdmin(handleListBounties),
+  'GET /admin/transactions': requireAdmin(handleListTransactions),
+  'GET /admin/commands': requireAdmin(handleListCommands),
+  'GET /admin/spend': requireAdmin(handleSpend),
+  'POST /admin/commands/retry': requireAdmin(handleRetryCommand),
+  'POST /admin/commands/abandon': requireAdmin(handleAbandonCommand)
+};
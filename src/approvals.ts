@@ -0,0 +1,194 @@
+import crypto from 'crypto';
+import { ApprovalRequest, BountyCommand, CommandSource, TokenInfo } from './types';
+import { APPROVAL_EXPIRY_HOURS, APPROVAL_THRESHOLDS } from './config';
+import { commentOnIssueUrl } from './github';
+import { releaseBudget } from './budgets';
+import { commandKey, getEntry, listEntries, putEntry, saveCommandRecord } from './store';
+import { formatTokenAmount } from './tokens';
+import { showCommandState } from './indicators';
+import { logger, recordAudit } from './logger';
+
+// Check if a bounty is large enough to need a second authorized user's approval
+export const requiresApproval = (token: TokenInfo, amount: number): boolean => {
+  const threshold = APPROVAL_THRESHOLDS[token.symbol.toUpperCase()] ?? APPROVAL_THRESHOLDS[token.mintAddress];
+  return threshold !== undefined && amount >= threshold;
+};
+
+const saveApproval = (approval: ApprovalRequest) => {
+  putEntry('approval', approval.id, approval);
+};
+
+// Record a step of an approval request in the audit log, under the command it approves
+const auditApproval = (approval: ApprovalRequest, outcome: string, actor?: string) => {
+  recordAudit({
+    event: 'approval',
+    actor,
+    issueUrl: approval.command.issueUrl,
+    commentId: approval.command.commentId,
+    amount: approval.command.amount,
+    token: approval.token.symbol,
+    outcome,
+    details: { approvalId: approval.id, requestedBy: approval.command.requestedBy }
+  });
+};
+
+// Link to the approval request comment, when there is one
+const requestLink = (approval: ApprovalRequest): string =>
+  approval.requestCommentUrl ? ` ([request](${approval.requestCommentUrl}))` : '';
+
+// Queue a checked bounty for approval and ask for it on the issue
+export const requestApproval = async (command: BountyCommand, token: TokenInfo): Promise<void> => {
+  let id: string;
+  do {
+    id = crypto.randomBytes(3).toString('hex');
+  } while (getEntry<ApprovalRequest>('approval', id));
+  
+  const now = new Date();
+  const approval: ApprovalRequest = {
+    id,
+    command,
+    token,
+    status: 'pending',
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + APPROVAL_EXPIRY_HOURS * 60 * 60 * 1000).toISOString()
+  };
+  saveApproval(approval);
+  auditApproval(approval, 'requested', command.requestedBy);
+  logger.info(`Bounty of ${formatTokenAmount(command.amount, token)} from ${command.requestedBy} is waiting for approval ${id}`);
+  
+  const comment = await commentOnIssueUrl(
+    command.issueUrl,
+    `⏳ A bounty of ${formatTokenAmount(command.amount, token)} requested by @${command.requestedBy} needs approval ` +
+    `from a second authorized user before it is funded.\n\n` +
+    `- Approve: \`/bounty approve ${id}\`\n` +
+    `- Reject: \`/bounty reject ${id}\`\n\n` +
+    `This request expires on ${approval.expiresAt.slice(0, 16).replace('T', ' ')} UTC.`
+  );
+  
+  if (comment?.html_url) {
+    saveApproval({ ...approval, requestCommentUrl: comment.html_url });
+  }
+};
+
+// Find a pending request for a decision, replying on the issue when it can't be decided
+const getPendingApproval = async (id: string, username: string, issueUrl: string): Promise<ApprovalRequest | null> => {
+  const approval = getEntry<ApprovalRequest>('approval', id);
+  
+  if (!approval || approval.command.issueUrl !== issueUrl) {
+    await commentOnIssueUrl(issueUrl, `❌ There is no approval request \`${id}\` on this issue.`);
+    return null;
+  }
+  
+  if (approval.status === 'pending' && new Date(approval.expiresAt) <= new Date()) {
+    await expireApproval(approval);
+    return null;
+  }
+  
+  if (approval.status !== 'pending') {
+    await commentOnIssueUrl(issueUrl, `ℹ️ Approval request \`${id}\` was already ${approval.status}${requestLink(approval)}.`);
+    return null;
+  }
+  
+  if (approval.command.requestedBy.toLowerCase() === username.toLowerCase()) {
+    await commentOnIssueUrl(
+      issueUrl,
+      `🚫 @${username}, you requested this bounty, so a different authorized user has to decide on \`${id}\`.`
+    );
+    return null;
+  }
+  
+  return approval;
+};
+
+// Approve a pending request, returning it so the caller can fund the bounty
+export const approveRequest = async (id: string, username: string, issueUrl: string): Promise<ApprovalRequest | null> => {
+  const approval = await getPendingApproval(id, username, issueUrl);
+  if (!approval) {
+    return null;
+  }
+  
+  const approved: ApprovalRequest = { ...approval, status: 'approved', decidedBy: username, decidedAt: new Date().toISOString() };
+  saveApproval(approved);
+  auditApproval(approved, 'approved', username);
+  logger.info(`Approval ${id} approved by ${username}`);
+  
+  await commentOnIssueUrl(
+    issueUrl,
+    `👍 @${username} approved the ${formatTokenAmount(approval.command.amount, approval.token)} bounty ` +
+    `requested by @${approval.command.requestedBy}${requestLink(approval)}. Funding it now.`
+  );
+  return approved;
+};
+
+// Reject a pending request and release its reserved budget
+export const rejectRequest = async (id: string, username: string, issueUrl: string): Promise<void> => {
+  const approval = await getPendingApproval(id, username, issueUrl);
+  if (!approval) {
+    return;
+  }
+  
+  saveApproval({ ...approval, status: 'rejected', decidedBy: username, decidedAt: new Date().toISOString() });
+  saveCommandRecord(approval.command, { status: 'rejected', error: `Rejected by ${username}` });
+  releaseBudget(approval.command);
+  auditApproval(approval, 'rejected', username);
+  logger.info(`Approval ${id} rejected by ${username}`);
+  await showCommandState(approval.command, 'rejected');
+  
+  await commentOnIssueUrl(
+    issueUrl,
+    `👎 @${username} rejected the ${formatTokenAmount(approval.command.amount, approval.token)} bounty ` +
+    `requested by @${approval.command.requestedBy}${requestLink(approval)}. No funds were spent.`
+  );
+};
+
+// Expire a pending request and release its reserved budget
+const expireApproval = async (approval: ApprovalRequest) => {
+  saveApproval({ ...approval, status: 'expired', decidedAt: new Date().toISOString() });
+  saveCommandRecord(approval.command, { status: 'failed', error: 'Approval request expired' });
+  releaseBudget(approval.command);
+  auditApproval(approval, 'expired');
+  logger.info(`Approval ${approval.id} expired`);
+  await showCommandState(approval.command, 'failed');
+  
+  await commentOnIssueUrl(
+    approval.command.issueUrl,
+    `⌛ Approval request \`${approval.id}\` for ${formatTokenAmount(approval.command.amount, approval.token)} ` +
+    `expired without a decision${requestLink(approval)}. No funds were spent; comment \`/bounty\` again to start over.`
+  );
+};
+
+// Withdraw the pending request for a command, e.g. when the label that requested it is removed
+export const withdrawApproval = async (source: CommandSource, username: string): Promise<void> => {
+  const approval = listEntries<ApprovalRequest>('approval')
+    .find(request => commandKey(request.command) === commandKey(source) && request.status === 'pending');
+  if (!approval) {
+    return;
+  }
+  
+  saveApproval({ ...approval, status: 'withdrawn', decidedBy: username, decidedAt: new Date().toISOString() });
+  saveCommandRecord(source, { status: 'rejected', error: `Withdrawn by ${username}` });
+  releaseBudget(source);
+  auditApproval(approval, 'withdrawn', username);
+  logger.info(`Approval ${approval.id} withdrawn by ${username}`);
+  
+  await commentOnIssueUrl(
+    approval.command.issueUrl,
+    `↩️ @${username} withdrew the ${formatTokenAmount(approval.command.amount, approval.token)} bounty ` +
+    `requested by @${approval.command.requestedBy}${requestLink(approval)} before it was approved. No funds were spent.`
+  );
+};
+
+// Expire every pending request past its deadline
+export const expireApprovalRequests = async () => {
+  const now = new Date();
+  const expired = listEntries<ApprovalRequest>('approval')
+    .filter(approval => approval.status === 'pending' && new Date(approval.expiresAt) <= now);
+  
+  for (const approval of expired) {
+    try {
+      await expireApproval(approval);
+    } catch (error) {
+      logger.error(`Error expiring approval ${approval.id}`, { error });
+    }
+  }
+};
@@ -0,0 +1,162 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+// What an audit entry records
+export type AuditEventType =
+  | 'command_parsed'
+  | 'authorization'
+  | 'approval'
+  | 'gibwork_response'
+  | 'transaction_sent'
+  | 'transaction_settled'
+  | 'operator_action';
+
+// One line of the audit log. Each entry carries the hash of the one before it, so editing,
+// reordering or deleting an entry breaks the chain from that point on.
+export interface AuditEntry {
+  seq: number;
+  time: string;
+  event: AuditEventType;
+  actor?: string;
+  repository?: string;
+  issueUrl?: string;
+  commentId?: number;
+  taskId?: string;
+  signature?: string;
+  amount?: number;
+  token?: string;
+  outcome: string;
+  details?: Record<string, unknown>;
+  prevHash: string;
+  hash: string;
+}
+
+export type AuditRecord = Omit<AuditEntry, 'seq' | 'time' | 'prevHash' | 'hash'>;
+
+// Hash that the first entry chains from
+const GENESIS_HASH = '0'.repeat(64);
+
+// How much of the end of the log to read to find its last entry
+const TAIL_BYTES = 64 * 1024;
+
+// Hash an entry together with the hash of the entry before it
+const hashEntry = (entry: Omit<AuditEntry, 'hash'>): string =>
+  crypto.createHash('sha256').update(entry.prevHash).update(JSON.stringify(entry)).digest('hex');
+
+// Parse a line of a log, or return null if it isn't a whole entry
+const parseLine = (line: string): AuditEntry | null => {
+  try {
+    const entry = JSON.parse(line) as AuditEntry;
+    return typeof entry.hash === 'string' ? entry : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+// Read the last entry of a log without loading all of it. A crash can leave the last line without
+// its newline: a whole entry gets the newline, a cut-short one is dropped, so the next entry starts
+// on a line of its own and chains from the last entry that was written whole.
+const readLastEntry = (file: string): AuditEntry | null => {
+  if (!fs.existsSync(file)) {
+    return null;
+  }
+  
+  const fd = fs.openSync(file, 'r+');
+  try {
+    const { size } = fs.fstatSync(fd);
+    const length = Math.min(size, TAIL_BYTES);
+    const buffer = Buffer.alloc(length);
+    fs.readSync(fd, buffer, 0, length, size - length);
+  
+    const lastNewline = buffer.lastIndexOf('\n');
+    const unterminated = buffer.subarray(lastNewline + 1).toString('utf8');
+    const lines = buffer.subarray(0, lastNewline + 1).toString('utf8').split('\n').filter(line => line.trim());
+    if (parseLine(unterminated)) {
+      fs.writeSync(fd, '\n', size);
+      lines.push(unterminated);
+    } else if (unterminated) {
+      fs.ftruncateSync(fd, size - length + lastNewline + 1);
+    }
+  
+    return lines.length > 0 ? JSON.parse(lines[lines.length - 1]) as AuditEntry : null;
+  } finally {
+    fs.closeSync(fd);
+  }
+};
+
+// Create an appender for an audit log file, continuing the chain already in it
+export const createAuditLog = (file: string) => {
+  let last: AuditEntry | null | undefined;
+  
+  return (record: AuditRecord): AuditEntry => {
+    if (last === undefined) {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      last = readLastEntry(file);
+    }
+  
+    const unhashed: Omit<AuditEntry, 'hash'> = {
+      seq: last ? last.seq + 1 : 1,
+      time: new Date().toISOString(),
+      ...record,
+      prevHash: last ? last.hash : GENESIS_HASH
+    };
+    const entry: AuditEntry = { ...unhashed, hash: hashEntry(unhashed) };
+  
+    // Synchronous, like the state file, so the entry is on disk before we act on it
+    fs.appendFileSync(file, `${JSON.stringify(entry)}\n`);
+    last = entry;
+    return entry;
+  };
+};
+
+// Read every entry of an audit log, leaving out a last line a crash cut short
+export const readAuditLog = (file: string): AuditEntry[] => {
+  const lines = fs.readFileSync(file, 'utf8').split('\n');
+  if (!parseLine(lines[lines.length - 1])) {
+    lines.pop();
+  }
+  
+  return lines.filter(line => line.trim()).map(line => JSON.parse(line) as AuditEntry);
+};
+
+// Check the hash chain, returning a description of the first broken entry, or null if it is intact
+export const verifyAuditLog = (entries: AuditEntry[]): string | null => {
+  let prevHash = GENESIS_HASH;
+  
+  for (const [index, entry] of entries.entries()) {
+    const { hash, ...unhashed } = entry;
+    if (entry.seq !== index + 1) {
+      return `entry ${index + 1} has sequence number ${entry.seq}`;
+    }
+    if (entry.prevHash !== prevHash || hashEntry(unhashed) !== hash) {
+      return `entry ${entry.seq} does not match its hash`;
+    }
+    prevHash = hash;
+  }
+  
+  return null;
+};
+
+const CSV_COLUMNS: (keyof AuditEntry)[] = [
+  'seq', 'time', 'event', 'actor', 'repository', 'issueUrl', 'commentId',
+  'taskId', 'signature', 'amount', 'token', 'outcome', 'details', 'hash'
+];
+
+// Quote a CSV field when it needs it; a leading =, +, - or @ is defused so spreadsheets don't run it
+const formatCsvField = (value: unknown): string => {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (/^[=+\-@]/.test(text) && typeof value !== 'number') {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Format audit entries as CSV, one row per entry
+export const formatAuditCsv = (entries: AuditEntry[]): string =>
+  [CSV_COLUMNS.join(','), ...entries.map(entry => CSV_COLUMNS.map(column => formatCsvField(entry[column])).join(','))]
+    .join('\n') + '\n';
@@ -0,0 +1,81 @@
+import { AuthorizationResult, AuthorizationRule, BountyRole } from './types';
+import { AUTH_CACHE_TTL_SECONDS } from './config';
+import { getUserPermission, isTeamMember } from './github';
+import { getRepoSettings } from './settings';
+
+// Permission levels in increasing order of access
+const PERMISSION_LEVELS = ['none', 'read', 'triage', 'write', 'maintain', 'admin'];
+
+// Cached GitHub lookups, keyed by lookup type and arguments
+const lookupCache = new Map<string, { value: unknown; expiresAt: number }>();
+
+// Run a GitHub lookup, reusing its result for AUTH_CACHE_TTL_SECONDS
+const cachedLookup = async <T>(key: string, lookup: () => Promise<T>): Promise<T> => {
+  const cached = lookupCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.value as T;
+  }
+  
+  const value = await lookup();
+  lookupCache.set(key, { value, expiresAt: Date.now() + AUTH_CACHE_TTL_SECONDS * 1000 });
+  return value;
+};
+
+// Check if a single rule matches a user in a repository
+const ruleMatches = async (rule: AuthorizationRule, repoFullName: string, username: string): Promise<boolean> => {
+  const user = username.toLowerCase();
+  
+  if (rule.type === 'user') {
+    return rule.value.toLowerCase() === user;
+  }
+  
+  if (rule.type === 'team') {
+    const [org, teamSlug] = rule.value.split('/');
+    return cachedLookup(`team:${rule.value.toLowerCase()}:${user}`, () => isTeamMember(org, teamSlug, username));
+  }
+  
+  const [owner, repo] = repoFullName.split('/');
+  const permission = await cachedLookup(
+    `permission:${repoFullName.toLowerCase()}:${user}`,
+    () => getUserPermission(owner, repo, username)
+  );
+  return PERMISSION_LEVELS.indexOf(permission) >= PERMISSION_LEVELS.indexOf(rule.value);
+};
+
+// Describe what would have granted a role, for the reply to an unauthorized user
+const describeRules = (rules: AuthorizationRule[]): string => {
+  if (rules.length === 0) {
+    return 'no one is authorized for this in the repository';
+  }
+  
+  const descriptions = rules.map(rule =>
+    rule.type === 'user' ? `@${rule.value}` :
+    rule.type === 'team' ? `members of @${rule.value}` :
+    `users with ${rule.value} permission or higher`
+  );
+  return `only ${descriptions.join(', ')} can do this`;
+};
+
+// Check if a user holds a role in a repository, through the default or the repository's rules
+export const authorize = async (
+  username: string,
+  repoFullName: string,
+  role: BountyRole
+): Promise<AuthorizationResult> => {
+  // Default rules come first, and user rules before those that need a GitHub lookup
+  const rules = getRepoSettings(repoFullName).authorizedUsers
+    .filter(rule => rule.roles.includes(role))
+    .sort((a, b) => Number(a.type !== 'user') - Number(b.type !== 'user'));
+  
+  for (const rule of rules) {
+    if (await ruleMatches(rule, repoFullName, username)) {
+      return { authorized: true, reason: `matched ${rule.type}:${rule.value}` };
+    }
+  }
+  
+  return { authorized: false, reason: describeRules(rules) };
+};
+
+// Reply text for a user who lacks a role
+export const formatUnauthorizedReply = (username: string, repoFullName: string, role: BountyRole, reason: string): string =>
+  `🚫 @${username}, you are not authorized to ${role} bounties in ${repoFullName}: ${reason}.`;
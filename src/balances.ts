@@ -0,0 +1,128 @@
+import { LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+import { TokenInfo } from './types';
+import { ALERT_ISSUE, LOW_BALANCE_THRESHOLDS, MIN_SOL_FOR_FEES } from './config';
+import { commentOnIssue } from './github';
+import { connection } from './solana';
+import { getWalletPublicKey } from './signer';
+import { findKnownToken } from './tokens';
+import { logger } from './logger';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+// Remind about a balance that stays low once a day
+const ALERT_REPEAT_MS = 24 * 60 * 60 * 1000;
+
+// When each low balance was last alerted, keyed by mint address
+const lastAlerts = new Map<string, number>();
+
+// Get the wallet's native SOL balance
+export const getSolBalance = async (): Promise<number> =>
+  (await connection.getBalance(new PublicKey(getWalletPublicKey()))) / LAMPORTS_PER_SOL;
+
+// Get the wallet's balance of a token, summed over all its token accounts for that mint.
+// SOL bounties are paid from the native balance, so the SOL mint reports that instead.
+export const getTokenBalance = async (mintAddress: string): Promise<number> => {
+  if (mintAddress === SOL_MINT) {
+    return getSolBalance();
+  }
+  
+  const { value } = await connection.getParsedTokenAccountsByOwner(
+    new PublicKey(getWalletPublicKey()),
+    { mint: new PublicKey(mintAddress) }
+  );
+  
+  return value.reduce((total, account) => total + (account.account.data.parsed.info.tokenAmount.uiAmount || 0), 0);
+};
+
+// Get the wallet's SOL balance and its balance of every token with a low-balance threshold
+export const getWalletBalances = async (): Promise<{ symbol: string; mintAddress: string; balance: number }[]> => {
+  const tokens = new Map<string, string>([[SOL_MINT, 'SOL']]);
+  for (const key of Object.keys(LOW_BALANCE_THRESHOLDS)) {
+    const token = findKnownToken(key);
+    tokens.set(token ? token.mintAddress : key, token ? token.symbol : key);
+  }
+  
+  return Promise.all(Array.from(tokens, async ([mintAddress, symbol]) => ({
+    symbol,
+    mintAddress,
+    balance: await getTokenBalance(mintAddress)
+  })));
+};
+
+// Check that the wallet can pay a bounty and its fees before asking Gib.work for a transaction
+export const checkBountyFunds = async (token: TokenInfo, amount: number) => {
+  const solBalance = await getSolBalance();
+  
+  if (token.mintAddress === SOL_MINT) {
+    if (solBalance < amount + MIN_SOL_FOR_FEES) {
+      throw new Error(
+        `The bot wallet holds ${solBalance} SOL, but this bounty needs ${amount} SOL ` +
+        `plus about ${MIN_SOL_FOR_FEES} SOL for fees and rent. Please top up the wallet and try again.`
+      );
+    }
+    return;
+  }
+  
+  if (solBalance < MIN_SOL_FOR_FEES) {
+    throw new Error(
+      `The bot wallet holds ${solBalance} SOL, which is not enough to pay transaction fees and rent ` +
+      `(about ${MIN_SOL_FOR_FEES} SOL needed). Please top up the wallet and try again.`
+    );
+  }
+  
+  const tokenBalance = await getTokenBalance(token.mintAddress);
+  if (tokenBalance < amount) {
+    throw new Error(
+      `The bot wallet holds ${tokenBalance} ${token.symbol}, but this bounty needs ${amount} ${token.symbol}. ` +
+      `Please top up the wallet and try again.`
+    );
+  }
+};
+
+// Send a low-funds alert to the ops issue, or log it when none is configured
+const sendAlert = async (message: string) => {
+  if (!ALERT_ISSUE) {
+    logger.warn(message, { alert: true });
+    return;
+  }
+  
+  await commentOnIssue(ALERT_ISSUE.owner, ALERT_ISSUE.repo, ALERT_ISSUE.issueNumber, `⚠️ ${message}`);
+};
+
+// Compare wallet balances with their thresholds and alert about the ones running low
+export const checkLowBalances = async () => {
+  const thresholds = Object.entries(LOW_BALANCE_THRESHOLDS);
+  if (thresholds.length === 0) {
+    return;
+  }
+  
+  for (const [key, threshold] of thresholds) {
+    const token = findKnownToken(key);
+    const mintAddress = token ? token.mintAddress : key;
+    const symbol = token ? token.symbol : key;
+    
+    try {
+      const balance = await getTokenBalance(mintAddress);
+      
+      if (balance >= threshold) {
+        if (lastAlerts.delete(mintAddress)) {
+          logger.info(`Wallet balance of ${symbol} recovered to ${balance}`);
+        }
+        continue;
+      }
+      
+      const lastAlert = lastAlerts.get(mintAddress);
+      if (lastAlert !== undefined && Date.now() - lastAlert < ALERT_REPEAT_MS) {
+        continue;
+      }
+      
+      lastAlerts.set(mintAddress, Date.now());
+      await sendAlert(
+        `Bot wallet \`${getWalletPublicKey()}\` is low on ${symbol}: ${balance} left, ` +
+        `below the alert threshold of ${threshold}. New bounties may fail until it is topped up.`
+      );
+    } catch (error) {
+      logger.error(`Error checking wallet balance of ${symbol}`, { error });
+    }
+  }
+};
@@ -1,300 +1,372 @@
-import fetch from 'node-fetch';
 import { 
-  Keypair, 
-  Connection, 
-  PublicKey,
   VersionedTransaction,
-  TransactionExpiredBlockheightExceededError
+  SendTransactionError
 } from '@solana/web3.js';
 import * as bs58 from 'bs58';
-import { BountyCommand, BountyRequestPayload, BountyResponse } from './types';
-import { WALLET_PRIVATE_KEY, WALLET_PUBLIC_KEY, SOLANA_RPC_URL } from './config';
-import { commentOnIssue, getIssueFromUrl, getRepositoryFromUrl, getRepoInfoFromUrl } from './github';
+import {
+  BountyCommand,
+  BountyRequestPayload,
+  BountyResponse,
+  BountyRecord,
+  BountyStatus,
+  CommandRecord,
+  ExistingBounty,
+  SentTransaction,
+  TokenInfo
+} from './types';
+import { DRY_RUN } from './config';
+import { commentOnIssueUrl, getRepoInfoFromUrl } from './github';
+import { getBountyRecordsForIssue, getCommandRecord, saveCommandRecord } from './store';
+import { connection } from './solana';
+import { formatSimulationReport, simulateSignedTransaction } from './simulation';
+import { resolveToken, validateTokenAmount } from './tokens';
+import { markBudgetSpent, releaseBudget, reserveBudget } from './budgets';
+import { checkBountyFunds } from './balances';
+import { getSigner, getWalletPublicKey } from './signer';
+import { requestApproval, requiresApproval, withdrawApproval } from './approvals';
+import { discardSignedTransaction, recordSignedTransaction, trackTransaction } from './tracker';
+import { gibwork, GibworkError, GibworkServiceError } from './gibwork';
+import { failures } from './metrics';
+import { withLock } from './queue';
+import { buildBountyTask } from './content';
+import { findCommandInProgress, findExistingBounty, formatDuplicateReply } from './guard';
+import { showCommandState } from './indicators';
+import { addLogContext, logger, recordAudit, withLogContext } from './logger';
 
-// Create a Solana connection with higher commitment level
-const connection = new Connection(SOLANA_RPC_URL, 'confirmed');
-
-// Get the wallet keypair
-const getWalletKeypair = (): Keypair => {
-  const privateKeyBytes = bs58.decode(WALLET_PRIVATE_KEY);
-  return Keypair.fromSecretKey(privateKeyBytes);
-};
+// Bounties that can still take a top-up
+const TOPUP_STATUSES: BountyStatus[] = ['open', 'claimed', 'pr_linked'];
 
 // Create a bounty task and get response with serialized transaction
-export const createBountyTransaction = async (command: BountyCommand): Promise<BountyResponse> => {
+export const createBountyTransaction = async (command: BountyCommand, token: TokenInfo): Promise<BountyResponse> => {
   try {
-    // Get issue details
-    const issueDetails = await getIssueFromUrl(command.issueUrl);
-    
-    // Get repository details
-    const repository = await getRepositoryFromUrl(issueDetails.repository_url);
-    
+    const task = await buildBountyTask(command, token);
     const payload: BountyRequestPayload = {
       token: {
-        mintAddress: command.tokenAddress,
+        mintAddress: token.mintAddress,
         amount: command.amount
       },
-      title: issueDetails.title,
-      content: issueDetails.body || 'No description provided',
-      requirements: 'PR to be merged',
-      tags: [repository.language || 'unknown'],
-      payer: WALLET_PUBLIC_KEY,
-      isHidden: true // Make the bounty private and only accessible via link
+      ...task,
+      payer: getWalletPublicKey(),
+      isHidden: !command.options.isPublic // Private bounties are only accessible via link
     };
     
-    const response = await fetch('https://api2.gib.work/tasks/public/transaction', {
-      method: 'POST',
-      headers: {
-        'accept': 'application/json',
-        'content-type': 'application/json'
-      },
-      body: JSON.stringify(payload)
-    });
+    // Keyed by the command's comment, so Gib.work creates one task per command however often we retry
+    const idempotencyKey = `${DRY_RUN ? 'dry-run-' : ''}bounty-${command.commentId}`;
+    const response = await gibwork.createTaskTransaction(payload, idempotencyKey);
     
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Failed to create bounty: ${response.statusText}. Details: ${errorText}`);
-    }
-    
-    return await response.json() as BountyResponse;
+    addLogContext({ taskId: response.taskId });
+    recordAudit({
+      event: 'gibwork_response',
+      actor: command.requestedBy,
+      issueUrl: command.issueUrl,
+      amount: command.amount,
+      token: token.symbol,
+      outcome: 'task_created',
+      details: { idempotencyKey, parentTaskId: command.parentTaskId }
+    });
+    return response;
   } catch (error) {
-    console.error('Error creating bounty transaction:', error);
+    logger.error('Error creating bounty transaction', { error });
+    recordAudit({
+      event: 'gibwork_response',
+      actor: command.requestedBy,
+      issueUrl: command.issueUrl,
+      amount: command.amount,
+      token: token.symbol,
+      outcome: 'error',
+      details: { error: (error as Error).message, status: error instanceof GibworkError ? error.status : undefined }
+    });
     throw error;
   }
 };
 
-// Check if a transaction is confirmed by signature
-export const checkTransactionStatus = async (signature: string): Promise<boolean> => {
-  try {
-    // Get the transaction status
-    const status = await connection.getSignatureStatus(signature, {
-      searchTransactionHistory: true
-    });
+// Sign and send a transaction without waiting for confirmation; the tracker follows it from there.
+// `onSigned` runs before the transaction is broadcast, to save what the tracker needs to resume it.
+const signAndSend = async (
+  serializedTransaction: string,
+  onSigned: (sent: SentTransaction) => void
+): Promise<SentTransaction> => {
+  logger.info('Preparing to sign and send transaction...');
+  
+  // Deserialize the transaction
+  const serializedTransactionBuffer = Buffer.from(serializedTransaction, 'base64');
+  const transaction = VersionedTransaction.deserialize(serializedTransactionBuffer);
+  
+  // Sign the transaction
+  await getSigner().signTransaction(transaction);
+  
+  // The signature is known before sending, so a transaction can be tracked even if the send call errors
+  const sent: SentTransaction = {
+    signature: bs58.encode(transaction.signatures[0]),
+    signedTransaction: Buffer.from(transaction.serialize()).toString('base64'),
+    recentBlockhash: transaction.message.recentBlockhash
+  };
+  addLogContext({ signature: sent.signature });
+  onSigned(sent);
+  
+  // In dry-run mode, simulate instead of broadcasting
+  if (DRY_RUN) {
+    const report = await simulateSignedTransaction(transaction);
+    logger.info(`[DRY RUN] ${formatSimulationReport(report)}`);
     
-    // If status is null, the transaction is not found
-    if (!status || !status.value) {
-      return false;
+    if (!report.success) {
+      discardSignedTransaction(sent.signature, `Simulation failed: ${report.error}`);
+      throw new Error(`Transaction simulation failed: ${report.error}`);
     }
-    
-    // Check if the transaction was confirmed
-    return status.value.confirmationStatus === 'confirmed' || 
-           status.value.confirmationStatus === 'finalized';
-  } catch (error) {
-    console.error('Error checking transaction status:', error);
-    return false;
+    return sent;
   }
-};
-
-// Sign and send transaction with improved error handling
-export const signAndSendTransaction = async (serializedTransaction: string): Promise<string> => {
+  
   try {
-    console.log('Preparing to sign and send transaction...');
-    
-    // Get wallet keypair
-    const wallet = getWalletKeypair();
-    
-    // Deserialize the transaction
-    const serializedTransactionBuffer = Buffer.from(serializedTransaction, 'base64');
-    const transaction = VersionedTransaction.deserialize(serializedTransactionBuffer);
-    
-    // Sign the transaction
-    transaction.sign([wallet]);
-    
-    // Send the transaction with higher commitment and more retries
-    const signature = await connection.sendTransaction(transaction, {
+    await connection.sendTransaction(transaction, {
       preflightCommitment: 'processed', // Use 'processed' for faster acceptance
       maxRetries: 5
     });
-    console.log(`Transaction sent with signature: ${signature}`);
+    logger.info(`Transaction sent with signature: ${sent.signature}`);
+  } catch (error) {
+    // A failed preflight means the transaction was never broadcast
+    if (error instanceof SendTransactionError) {
+      logger.error('Error signing and sending transaction', { error });
+      discardSignedTransaction(sent.signature, error.message);
+      throw error;
+    }
+    
+    // Anything else (e.g. a network error) may have happened after the RPC node accepted it
+    logger.warn(`Transaction ${sent.signature} may have been sent despite an error`, { error });
+  }
+  
+  return sent;
+};
+
+// Sign and send one transaction at a time per wallet, so concurrent commands never race
+// the signer or each other's fee payments
+export const signAndSendTransaction = (
+  serializedTransaction: string,
+  onSigned: (sent: SentTransaction) => void
+): Promise<SentTransaction> =>
+  withLock(`wallet:${getWalletPublicKey()}`, () => signAndSend(serializedTransaction, onSigned));
+
+// Process a bounty command: check it, then fund it or queue it for approval
+export const processBountyCommand = async (command: BountyCommand): Promise<void> => {
+  // Never act on a command twice; a record means we may already have spent funds for it
+  const existingRecord = getCommandRecord(command);
+  if (existingRecord) {
+    logger.info(`Skipping bounty command from comment ${command.commentId}: already ${existingRecord.status}`);
     
+    // Amending the amount or token of a handled command would otherwise be silently ignored
+    if (existingRecord.amount !== command.amount || existingRecord.token !== command.token) {
+      await commentOnIssueUrl(
+        command.issueUrl,
+        `✏️ This bounty command was already ${existingRecord.status.replace('_', ' ')}, so editing it changes nothing. ` +
+        `Use \`/bounty topup <amount>\` to add funds to the bounty, or post a new command.`
+      );
+    }
+    return;
+  }
+  
+  // Only one bounty per issue; more funds go through `/bounty topup`
+  if (!command.parentTaskId) {
+    let existing: ExistingBounty | null;
     try {
-      // Get the latest blockhash for confirmation
-      const latestBlockhash = await connection.getLatestBlockhash('confirmed');
-      
-      // More tolerant confirmation parameters
-      const confirmationConfig = {
-        signature,
-        blockhash: latestBlockhash.blockhash,
-        lastValidBlockHeight: latestBlockhash.lastValidBlockHeight
-      };
-      
-      // Try to confirm with a timeout
-      await Promise.race([
-        connection.confirmTransaction(confirmationConfig, 'confirmed'),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error('Confirmation timeout')), 60000)
-        )
-      ]);
-      
-      console.log(`Transaction confirmed with signature: ${signature}`);
-    } catch (confirmError : any) {
-      // If confirmation fails, check if the transaction was actually successful
-      console.warn(`Confirmation error: ${confirmError.message}`);
-      
-      // Wait a moment to let the transaction propagate
-      await new Promise(resolve => setTimeout(resolve, 5000));
-      
-      // Check transaction status directly
-      const isConfirmed = await checkTransactionStatus(signature);
-      
-      if (isConfirmed) {
-        console.log(`Transaction ${signature} was confirmed despite confirmation error`);
-      } else if (confirmError instanceof TransactionExpiredBlockheightExceededError) {
-        // For this specific error, the transaction might still be valid
-        console.log(`Block height exceeded but transaction may still be valid: ${signature}`);
-        
-        // Make additional checks with longer timeout
-        for (let i = 0; i < 3; i++) {
-          await new Promise(resolve => setTimeout(resolve, 5000));
-          const retryConfirmed = await checkTransactionStatus(signature);
-          if (retryConfirmed) {
-            console.log(`Transaction ${signature} confirmed after retry check`);
-            break;
-          }
-        }
-      } else {
-        throw new Error(`Transaction may have failed: ${confirmError.message}`);
-      }
+      existing = await findExistingBounty(command.issueUrl);
+    } catch (error) {
+      logger.error('Error checking for an existing bounty', { error });
+      await showCommandState(command, 'failed');
+      await commentOnIssueUrl(command.issueUrl, `❌ Could not check this issue for an existing bounty: ${(error as Error).message}`);
+      return;
     }
     
-    return signature;
-  } catch (error : any) {
-    // If the error contains a signature, the transaction was sent but confirmation failed
-    if (error.signature) {
-      console.warn(`Error confirming transaction, but it has a signature: ${error.signature}`);
-      return error.signature;
+    existing = existing || findCommandInProgress(command.issueUrl, command);
+    if (existing) {
+      failures.inc({ reason: 'duplicate' });
+      logger.info(`Rejecting bounty command from comment ${command.commentId}: issue already has bounty ${existing.taskId || existing.commentId}`);
+      saveCommandRecord(command, {
+        issueUrl: command.issueUrl,
+        amount: command.amount,
+        token: command.token,
+        requestedBy: command.requestedBy,
+        label: command.label,
+        status: 'rejected',
+        error: 'Issue already has a bounty'
+      });
+      await showCommandState(command, 'rejected');
+      await commentOnIssueUrl(command.issueUrl, formatDuplicateReply(existing));
+      return;
     }
+  }
+  
+  saveCommandRecord(command, {
+    issueUrl: command.issueUrl,
+    amount: command.amount,
+    token: command.token,
+    requestedBy: command.requestedBy,
+    label: command.label,
+    status: 'processing'
+  });
+  
+  let token: TokenInfo;
+  try {
+    logger.info(`Processing bounty command: ${command.amount} ${command.token} for issue ${command.issueUrl}`);
     
-    console.error('Error signing and sending transaction:', error);
-    throw error;
+    // Resolve the token symbol or mint, rejecting tokens this repository doesn't accept
+    const { owner, repo } = getRepoInfoFromUrl(command.issueUrl);
+    token = await resolveToken(command.token, `${owner}/${repo}`);
+    validateTokenAmount(command.amount, token);
+    await checkBountyFunds(token, command.amount);
+    reserveBudget(command, `${owner}/${repo}`, command.requestedBy, token, command.amount);
+    saveCommandRecord(command, { status: 'processing', tokenAddress: token.mintAddress });
+  } catch (error) {
+    logger.error('Error checking bounty command', { error });
+    failures.inc({ reason: 'checks' });
+    saveCommandRecord(command, { status: 'failed', error: (error as Error).message });
+    releaseBudget(command);
+    await showCommandState(command, 'failed');
+    
+    try {
+      await commentOnIssueUrl(command.issueUrl, `❌ Issue with bounty creation: ${(error as Error).message}`);
+    } catch (commentError) {
+      logger.error('Error posting failure comment', { error: commentError });
+    }
+    return;
+  }
+  
+  // Large bounties wait for a second authorized user; the budget stays reserved meanwhile
+  if (requiresApproval(token, command.amount)) {
+    saveCommandRecord(command, { status: 'pending_approval' });
+    await requestApproval(command, token);
+    return;
   }
+  
+  await fundBounty(command, token);
 };
 
-// Process a bounty command
-export const processBountyCommand = async (command: BountyCommand): Promise<void> => {
-  let transactionSignature: string | null = null;
-  let bountyResponse: BountyResponse | null = null;
+// Handle `/bounty topup`: add funds to the issue's bounty. Gib.work tasks can't be topped up in
+// place, so the funds go into a new task linked to the original, with the same visibility and deadline.
+export const processTopupCommand = async (
+  topup: Omit<BountyCommand, 'token' | 'options' | 'parentTaskId'> & { token?: string }
+): Promise<void> => {
+  const parent = getBountyRecordsForIssue(topup.issueUrl)
+    .find(record => !record.parentTaskId && TOPUP_STATUSES.includes(record.status));
+  
+  if (!parent) {
+    const inProgress = findCommandInProgress(topup.issueUrl, topup);
+    await showCommandState(topup, 'rejected');
+    await commentOnIssueUrl(
+      topup.issueUrl,
+      inProgress ?
+        `⏳ This issue's bounty is still ${inProgress.status?.replace('_', ' ')}. Top it up once it is funded.` :
+        `ℹ️ There is no active bounty on this issue to top up. Use \`/bounty <amount> <token>\` to create one.`
+    );
+    return;
+  }
+  
+  logger.info(`Topping up bounty ${parent.taskId} with ${topup.amount} ${topup.token || parent.tokenSymbol}`);
+  await processBountyCommand({
+    ...topup,
+    token: topup.token || parent.tokenAddress,
+    options: { isPublic: Boolean(parent.isPublic), deadline: parent.deadline },
+    parentTaskId: parent.taskId
+  });
+};
+
+// Handle the removal of the label behind a command: withdraw its bounty if it is still waiting
+// for approval. Once funds have moved, only `/bounty cancel` can get them back.
+export const withdrawLabelBounty = async (command: CommandRecord, username: string): Promise<void> => {
+  if (command.status === 'pending_approval') {
+    await withdrawApproval(command, username);
+    return;
+  }
+  
+  if (command.status === 'submitted' || command.status === 'confirmed') {
+    await commentOnIssueUrl(
+      command.issueUrl,
+      `ℹ️ The bounty requested by the \`${command.label}\` label is already funded, so removing the label does not cancel it. ` +
+      `Comment \`/bounty cancel\` to refund it.`
+    );
+  }
+};
+
+// Fund a bounty once it has been approved. The Gib.work transaction is only created now,
+// so its blockhash is fresh no matter how long the request waited.
+export const fundApprovedBounty = async (command: BountyCommand, token: TokenInfo): Promise<void> => {
+  // Balances may have moved while the request waited
+  try {
+    await checkBountyFunds(token, command.amount);
+  } catch (error) {
+    saveCommandRecord(command, { status: 'failed', error: (error as Error).message });
+    releaseBudget(command);
+    await showCommandState(command, 'failed');
+    await commentOnIssueUrl(command.issueUrl, `❌ Issue with bounty creation: ${(error as Error).message}`);
+    return;
+  }
+  
+  // Approval arrives in another comment, so log the work under the original command
+  await withLogContext({ commentId: command.commentId, issueUrl: command.issueUrl }, () => fundBounty(command, token));
+};
+
+// Create, sign and send a checked bounty, then hand it to the confirmation tracker
+export const fundBounty = async (command: BountyCommand, token: TokenInfo): Promise<void> => {
+  let bountyResponse: BountyResponse;
+  let sent: SentTransaction;
+  
+  // The bounty is only recorded for lifecycle tracking once its transaction confirms
+  const toBountyRecord = (taskId: string, signature: string): BountyRecord => {
+    const now = new Date().toISOString();
+    return {
+      taskId,
+      issueUrl: command.issueUrl,
+      commentId: command.commentId,
+      origin: command.origin,
+      requestedBy: command.requestedBy,
+      amount: command.amount,
+      tokenAddress: token.mintAddress,
+      tokenSymbol: token.symbol,
+      signature,
+      status: 'open',
+      isPublic: command.options.isPublic,
+      deadline: command.options.deadline,
+      parentTaskId: command.parentTaskId,
+      createdAt: now,
+      updatedAt: now
+    };
+  };
+  
+  saveCommandRecord(command, { status: 'processing' });
   
   try {
-    console.log(`Processing bounty command: ${command.amount} tokens for issue ${command.issueUrl}`);
-    
     // Create the bounty transaction
-    bountyResponse = await createBountyTransaction(command);
-    
-    // Sign and send the transaction
-    transactionSignature = await signAndSendTransaction(bountyResponse.serializedTransaction);
-    console.log(`Transaction processed with signature: ${transactionSignature}`);
-    
-    // Get the issue details for commenting
-    const issueDetails = await getIssueFromUrl(command.issueUrl);
-    const { owner, repo } = getRepoInfoFromUrl(issueDetails.repository_url);
-    
-    // Format token type for display
-    const tokenType = command.tokenAddress === 'So11111111111111111111111111111111111111112' ? 'SOL' : 
-                      command.tokenAddress === 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v' ? 'USDC' : 
-                      'tokens';
+    bountyResponse = await createBountyTransaction(command, token);
+    const { taskId } = bountyResponse;
+    saveCommandRecord(command, { status: 'processing', taskId });
     
-    // Generate URLs
-    const explorerUrl = `https://explorer.solana.com/tx/${transactionSignature}`;
-    const bountyUrl = `https://app.gib.work/tasks/${bountyResponse.taskId}`;
-    
-    // Check transaction status one more time before commenting
-    const isConfirmed = await checkTransactionStatus(transactionSignature);
-    const statusNote = isConfirmed ? 
-      'Transaction confirmed.' : 
-      'Transaction submitted but confirmation is pending. You can check its status using the transaction link below.';
-    
-    // Comment on the issue with the bounty confirmation
-    await commentOnIssue(
-      owner,
-      repo,
-      issueDetails.number,
-      `✅ Bounty created successfully!\n\n` +
-      `Bounty ID: ${bountyResponse.taskId}\n` +
-      `Amount: ${command.amount} ${tokenType}\n` +
-      `${statusNote}\n\n` +
-      `🔗 Links:\n` +
-      `- Bounty: [View on Gib.work](${bountyUrl}) (Private bounty, only accessible via this link)\n` +
-      `- Transaction: [View on Solana Explorer](${explorerUrl})\n\n` +
-      `Thank you for contributing to the project!`
-    );
-    
-    console.log(`Bounty created successfully. ID: ${bountyResponse.taskId}`);
+    // Sign and send the transaction, saving its signature first so a crash mid-send can't lose it
+    sent = await signAndSendTransaction(bountyResponse.serializedTransaction, signed => {
+      saveCommandRecord(command, { status: 'processing', signature: signed.signature });
+      recordSignedTransaction('create', signed, toBountyRecord(taskId, signed.signature), command.requestedBy);
+    });
   } catch (error) {
-    console.error('Error processing bounty command:', error);
+    logger.error('Error processing bounty command', { error });
+    failures.inc({ reason: error instanceof GibworkError ? 'gibwork' : 'send' });
     
-    // If we have a transaction signature but encountered an error during confirmation,
-    // we should still check if the transaction was actually successful
-    if (transactionSignature && bountyResponse) {
-      try {
-        const isSuccessful = await checkTransactionStatus(transactionSignature);
-        if (isSuccessful) {
-          console.log(`Despite errors, transaction ${transactionSignature} appears to be successful`);
-          
-          // Handle as a successful transaction
-          const issueDetails = await getIssueFromUrl(command.issueUrl);
-          const { owner, repo } = getRepoInfoFromUrl(issueDetails.repository_url);
-          
-          // Format token type for display
-          const tokenType = command.tokenAddress === 'So11111111111111111111111111111111111111112' ? 'SOL' : 
-                          command.tokenAddress === 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v' ? 'USDC' : 
-                          'tokens';
-          
-          // Generate URLs
-          const explorerUrl = `https://explorer.solana.com/tx/${transactionSignature}`;
-          const bountyUrl = `https://app.gib.work/tasks/${bountyResponse.taskId}`;
-          
-          await commentOnIssue(
-            owner,
-            repo,
-            issueDetails.number,
-            `✅ Bounty created successfully (with confirmation issues)!\n\n` +
-            `We encountered some issues confirming the transaction, but it appears to have been successful.\n` +
-            `Amount: ${command.amount} ${tokenType}\n\n` +
-            `🔗 Links:\n` +
-            `- Bounty: [View on Gib.work](${bountyUrl}) (Private bounty, only accessible via this link)\n` +
-            `- Transaction: [View on Solana Explorer](${explorerUrl})\n\n` +
-            `Please verify the transaction status using the links above.`
-          );
-          
-          return;
-        }
-      } catch (statusCheckError) {
-        console.error('Error checking transaction status:', statusCheckError);
-      }
-    }
+    // Nothing was broadcast, so nothing was spent
+    saveCommandRecord(command, { status: 'failed', signature: undefined, error: (error as Error).message });
+    releaseBudget(command);
+    await showCommandState(command, 'failed');
+    
+    const retryNote = error instanceof GibworkServiceError ?
+      '\n\nGib.work seems to be having trouble. Post the command again in a new comment to retry later.' :
+      '';
     
-    // Get the issue details for commenting about the error
     try {
-      const issueDetails = await getIssueFromUrl(command.issueUrl);
-      const { owner, repo } = getRepoInfoFromUrl(issueDetails.repository_url);
-      
-      // Comment on the issue with the error
-      let errorMessage = (error as Error).message;
-      
-      // If we have a transaction signature, include it in the error message
-      if (transactionSignature) {
-        const explorerUrl = `https://explorer.solana.com/tx/${transactionSignature}`;
-        
-        // If we have a bounty ID, include it in the error message
-        if (bountyResponse && bountyResponse.taskId) {
-          const bountyUrl = `https://app.gib.work/tasks/${bountyResponse.taskId}`;
-          errorMessage += `\n\nTransaction was sent but confirmation failed. The bounty may still have been created:\n` +
-                         `- Bounty: [View on Gib.work](${bountyUrl}) (Private bounty, only accessible via this link)\n` +
-                         `- Transaction: [View on Solana Explorer](${explorerUrl})`;
-        } else {
-          errorMessage += `\n\nTransaction was sent but confirmation failed. You can check its status here: [${transactionSignature}](${explorerUrl})`;
-        }
-      }
-      
-      await commentOnIssue(
-        owner,
-        repo,
-        issueDetails.number,
-        `❌ Issue with bounty creation: ${errorMessage}`
-      );
+      await commentOnIssueUrl(command.issueUrl, `❌ Issue with bounty creation: ${(error as Error).message}${retryNote}`);
     } catch (commentError) {
-      console.error('Error posting failure comment:', commentError);
+      logger.error('Error posting failure comment', { error: commentError });
     }
+    return;
   }
-};
\ No newline at end of file
+  
+  logger.info(`Transaction processed with signature: ${sent.signature}`);
+  saveCommandRecord(command, { status: 'submitted', signature: sent.signature });
+  markBudgetSpent(command);
+  
+  await trackTransaction('create', sent, toBountyRecord(bountyResponse.taskId, sent.signature), command.requestedBy);
+};
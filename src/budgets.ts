@@ -0,0 +1,155 @@
+import { CommandSource, SpendRecord, TokenInfo } from './types';
+import {
+  MAX_BOUNTY_AMOUNT,
+  USER_DAILY_BUDGET,
+  USER_WEEKLY_BUDGET,
+  USER_MONTHLY_BUDGET,
+  REPO_TOTAL_BUDGET
+} from './config';
+import { commentOnIssue, getIssueFromUrl, getRepoInfoFromUrl } from './github';
+import { commandKey, deleteEntry, getEntry, listEntries, putEntry } from './store';
+import { findKnownToken } from './tokens';
+
+type BudgetPeriod = 'daily' | 'weekly' | 'monthly';
+
+const USER_BUDGETS: Record<BudgetPeriod, Record<string, number>> = {
+  daily: USER_DAILY_BUDGET,
+  weekly: USER_WEEKLY_BUDGET,
+  monthly: USER_MONTHLY_BUDGET
+};
+
+// Start of the current calendar period in UTC; weeks start on Monday
+const getPeriodStart = (period: BudgetPeriod, now = new Date()): Date => {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  if (period === 'weekly') {
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  } else if (period === 'monthly') {
+    start.setUTCDate(1);
+  }
+  return start;
+};
+
+// Get the configured limit for a token, matched by symbol or mint address
+const getLimit = (limits: Record<string, number>, token: TokenInfo): number | undefined =>
+  limits[token.symbol.toUpperCase()] ?? limits[token.mintAddress];
+
+// Sum reserved and spent amounts of a token, optionally in one repository, for one user and since a date
+const getSpent = (tokenAddress: string, { repoFullName, user, since }: { repoFullName?: string; user?: string; since?: Date }): number =>
+  listEntries<SpendRecord>('spend')
+    .filter(record =>
+      (!repoFullName || record.repository === repoFullName.toLowerCase()) &&
+      record.tokenAddress === tokenAddress &&
+      (!user || record.user === user.toLowerCase()) &&
+      (!since || new Date(record.spentAt) >= since)
+    )
+    .reduce((total, record) => total + record.amount, 0);
+
+// Check a bounty against every spending limit and reserve its amount if it fits.
+// Reserving up front keeps two concurrent commands from both fitting in the same budget.
+export const reserveBudget = (
+  source: CommandSource,
+  repoFullName: string,
+  user: string,
+  token: TokenInfo,
+  amount: number
+) => {
+  const maxAmount = getLimit(MAX_BOUNTY_AMOUNT, token);
+  if (maxAmount !== undefined && amount > maxAmount) {
+    throw new Error(`Bounties are limited to ${maxAmount} ${token.symbol} each.`);
+  }
+  
+  for (const [period, limits] of Object.entries(USER_BUDGETS) as [BudgetPeriod, Record<string, number>][]) {
+    const limit = getLimit(limits, token);
+    if (limit === undefined) {
+      continue;
+    }
+    
+    // A user's budget covers every repository they can fund bounties in
+    const spent = getSpent(token.mintAddress, { user, since: getPeriodStart(period) });
+    if (spent + amount > limit) {
+      throw new Error(
+        `This would exceed your ${period} budget of ${limit} ${token.symbol} across all repositories ` +
+        `(${Math.max(limit - spent, 0)} ${token.symbol} left). Comment \`/bounty budget\` for details.`
+      );
+    }
+  }
+  
+  const repoLimit = getLimit(REPO_TOTAL_BUDGET, token);
+  if (repoLimit !== undefined) {
+    const spent = getSpent(token.mintAddress, { repoFullName });
+    if (spent + amount > repoLimit) {
+      throw new Error(
+        `This would exceed the total budget of ${repoLimit} ${token.symbol} for ${repoFullName} ` +
+        `(${Math.max(repoLimit - spent, 0)} ${token.symbol} left).`
+      );
+    }
+  }
+  
+  putEntry<SpendRecord>('spend', commandKey(source), {
+    commentId: source.commentId,
+    repository: repoFullName.toLowerCase(),
+    user: user.toLowerCase(),
+    tokenAddress: token.mintAddress,
+    amount,
+    status: 'reserved',
+    spentAt: new Date().toISOString()
+  });
+};
+
+// Turn a reservation into spent funds once the bounty transaction has been sent
+export const markBudgetSpent = (source: CommandSource) => {
+  const record = getEntry<SpendRecord>('spend', commandKey(source));
+  if (record) {
+    putEntry<SpendRecord>('spend', commandKey(source), { ...record, status: 'spent' });
+  }
+};
+
+// Release a reservation for a bounty whose transaction was never sent
+export const releaseBudget = (source: CommandSource) => {
+  deleteEntry('spend', commandKey(source));
+};
+
+// Build the reply to `/bounty budget`: what a user has left in a repository, per token
+export const getBudgetReport = (repoFullName: string, user: string): string => {
+  const tokenKeys = new Set([
+    ...Object.keys(MAX_BOUNTY_AMOUNT),
+    ...Object.values(USER_BUDGETS).flatMap(limits => Object.keys(limits)),
+    ...Object.keys(REPO_TOTAL_BUDGET)
+  ]);
+  
+  if (tokenKeys.size === 0) {
+    return `💰 No spending limits are configured for ${repoFullName}.`;
+  }
+  
+  const rows = Array.from(tokenKeys).map(key => {
+    const token: TokenInfo = findKnownToken(key) ||
+      { symbol: key, name: key, mintAddress: key, decimals: 0 };
+    const remaining = (limit: number | undefined, spent: number) =>
+      limit === undefined ? 'unlimited' : `${Math.max(limit - spent, 0)} of ${limit}`;
+    
+    const periods = (Object.keys(USER_BUDGETS) as BudgetPeriod[]).map(period =>
+      remaining(
+        getLimit(USER_BUDGETS[period], token),
+        getSpent(token.mintAddress, { user, since: getPeriodStart(period) })
+      )
+    );
+    const maxAmount = getLimit(MAX_BOUNTY_AMOUNT, token);
+    
+    return `| ${token.symbol} | ${maxAmount ?? 'unlimited'} | ${periods.join(' | ')} | ` +
+           `${remaining(getLimit(REPO_TOTAL_BUDGET, token), getSpent(token.mintAddress, { repoFullName }))} |`;
+  });
+  
+  return `💰 Remaining bounty budget for @${user} in ${repoFullName}. Daily, weekly and monthly budgets count ` +
+         `bounties in every repository.\n\n` +
+         `| Token | Max per bounty | Today | This week | This month | Repository total |\n` +
+         `| --- | --- | --- | --- | --- | --- |\n` +
+         rows.join('\n');
+};
+
+// Reply to `/bounty budget` on the issue it was posted on
+export const postBudgetReport = async (issueUrl: string, user: string): Promise<void> => {
+  const issueDetails = await getIssueFromUrl(issueUrl);
+  const { owner, repo } = getRepoInfoFromUrl(issueDetails.repository_url);
+  
+  await commentOnIssue(owner, repo, issueDetails.number, getBudgetReport(`${owner}/${repo}`, user));
+};
@@ -0,0 +1,276 @@
+#!/usr/bin/env node
+// Operator CLI, working on the bot's state file, wallet and GitHub token from the same environment.
+//
+// Usage: gibwork-bot <command> (or npm run cli -- <command>)
+//
+//   create <issue-url> <amount> <token> [--public] [--as <github-login>]
+//       Fund a bounty like a `/bounty` comment would, without the authorization check
+//   status <issue-url>
+//       Show the bounties, commands and pending transactions the bot has for an issue
+//   replay <command-id> [--force]
+//       Handle a comment again: a command that failed before sending funds, or one the bot missed.
+//       The ID is a comment ID, or `<origin>:<id>` (e.g. issue:123) when commands from several
+//       origins share it.
+//       --force retries a command still processing, once the wallet shows no transaction the bot
+//       has no record of
+//   reconcile [--limit 1000]
+//       Match the wallet's recent transactions to bounties, exiting 1 if anything doesn't add up
+//
+// create and replay write the state file and audit log, so they take the bot's state lock and refuse
+// to run while the bot is running; use the admin API's retry instead. Set LOG_LEVEL=warn to see
+// only the CLI's own output.
+import os from 'os';
+import { CommandRecord, CommandSource } from './types';
+import { DRY_RUN, validateConfig } from './config';
+import { findComment, getBotLogin, getIssueInfoFromUrl, toIssueApiUrl } from './github';
+import { processBountyCommand } from './bounty';
+import { checkForcedReplay, getReplayBlocker, replayCommand, replayComment } from './replay';
+import { reconcileWallet } from './reconcile';
+import { checkPendingTransactions } from './tracker';
+import { initSigner } from './signer';
+import { getRepoSettings, getRepositories, isMonitoredRepository, refreshRepositories } from './settings';
+import {
+  acquireStateLock,
+  commandKey,
+  findCommandRecord,
+  getBountyRecordsForIssue,
+  getCommandRecord,
+  getCommandRecordsForIssue,
+  getPendingTransactions
+} from './store';
+import { logger, recordAudit, withLogContext } from './logger';
+
+const USAGE = 'Usage: gibwork-bot create <issue-url> <amount> <token> [--public] [--as <github-login>]\n' +
+              '       gibwork-bot status <issue-url>\n' +
+              '       gibwork-bot replay <command-id> [--force]\n' +
+              '       gibwork-bot reconcile [--limit 1000]';
+
+// How often to check a transaction while waiting for it, like the bot's tracker
+const TRANSACTION_CHECK_INTERVAL_MS = 5000;
+
+// Options that take a value, so their value isn't mistaken for an argument
+const VALUE_OPTIONS = ['--as', '--limit'];
+
+const [commandName, ...args] = process.argv.slice(2);
+const positional = args.filter((arg, index) => !arg.startsWith('--') && !VALUE_OPTIONS.includes(args[index - 1]));
+
+// Operator actions are audited under the local user running the CLI
+const actor = `cli:${os.userInfo().username}`;
+
+const getOption = (name: string): string | undefined => {
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? undefined : args[index + 1];
+};
+
+// Check a command's transaction until it settles, as the bot's tracker would
+const waitForTransaction = async (source: CommandSource) => {
+  while (getPendingTransactions().some(record => commandKey(record.bounty) === commandKey(source))) {
+    console.log('Waiting for the transaction to settle...');
+    await new Promise(resolve => setTimeout(resolve, TRANSACTION_CHECK_INTERVAL_MS));
+    await checkPendingTransactions();
+  }
+};
+
+// Describe a command record on one line
+const formatCommand = (record: CommandRecord): string =>
+  [
+    commandKey(record),
+    `${record.amount} ${record.token}`,
+    record.status,
+    `by ${record.requestedBy} via ${record.origin || 'comment'}`,
+    record.taskId ? `task ${record.taskId}` : '',
+    record.signature ? `tx ${record.signature}` : '',
+    record.error ? `(${record.error})` : ''
+  ].filter(Boolean).join('  ');
+
+// Wait for a command to settle and print where it ended up; a command that funded a bounty or is
+// waiting for approval succeeded
+const reportCommand = async (source: CommandSource): Promise<number> => {
+  await waitForTransaction(source);
+  
+  const record = getCommandRecord(source);
+  if (!record) {
+    console.log(`Comment ${source.commentId} was handled; it was not a bounty command`);
+    return 0;
+  }
+  
+  console.log(formatCommand(record));
+  return record.status === 'confirmed' || record.status === 'pending_approval' ? 0 : 1;
+};
+
+// create <issue-url> <amount> <token>: fund a bounty through the same path as a `/bounty` comment
+const runCreate = async ([url, amountArg, token]: string[]): Promise<number> => {
+  const amount = Number(amountArg);
+  if (!url || !token || !(amount > 0)) {
+    console.error(USAGE);
+    return 1;
+  }
+  
+  acquireStateLock(actor);
+  const issueUrl = toIssueApiUrl(url);
+  const { owner, repo } = getIssueInfoFromUrl(issueUrl);
+  await refreshRepositories();
+  if (!isMonitoredRepository(`${owner}/${repo}`)) {
+    console.error(`${owner}/${repo} is not a monitored repository`);
+    return 1;
+  }
+  
+  await initSigner();
+  
+  // CLI commands have no comment; a negative ID keeps them apart from GitHub's comment IDs
+  const commentId = -Date.now();
+  const requestedBy = getOption('as') || await getBotLogin();
+  recordAudit({
+    event: 'operator_action',
+    actor,
+    issueUrl,
+    commentId,
+    amount,
+    token,
+    outcome: 'create',
+    details: { requestedBy }
+  });
+  
+  await withLogContext({ commentId, issueUrl, user: requestedBy }, () => processBountyCommand({
+    amount,
+    token,
+    options: { isPublic: args.includes('--public') || getRepoSettings(`${owner}/${repo}`).visibility === 'public' },
+    issueUrl,
+    commentId,
+    requestedBy,
+    origin: 'cli'
+  }));
+  return reportCommand({ commentId, origin: 'cli' });
+};
+
+// status <issue-url>: print what the bot knows about an issue
+const runStatus = async ([url]: string[]): Promise<number> => {
+  if (!url) {
+    console.error(USAGE);
+    return 1;
+  }
+  
+  const issueUrl = toIssueApiUrl(url);
+  const bounties = getBountyRecordsForIssue(issueUrl).map(bounty =>
+    [
+      bounty.taskId,
+      `${bounty.amount} ${bounty.tokenSymbol}`,
+      bounty.status,
+      bounty.parentTaskId ? `top-up of ${bounty.parentTaskId}` : '',
+      `tx ${bounty.signature}`
+    ].filter(Boolean).join('  ')
+  );
+  const commands = getCommandRecordsForIssue(issueUrl).map(formatCommand);
+  const transactions = getPendingTransactions()
+    .filter(record => record.bounty.issueUrl === issueUrl)
+    .map(record => `${record.signature}  ${record.kind} ${record.bounty.taskId}  sent ${record.submittedAt}`);
+  
+  for (const [title, lines] of [['Bounties', bounties], ['Commands', commands], ['Pending transactions', transactions]] as const) {
+    console.log(`${title}:`);
+    console.log(lines.length > 0 ? lines.map(line => `  ${line}`).join('\n') : '  (none)');
+  }
+  return 0;
+};
+
+// replay <command-id>: handle a comment again, whether the bot recorded a command for it or never saw it
+const runReplay = async ([idArg]: string[]): Promise<number> => {
+  const commentId = Number(idArg?.replace(/^(comment|issue|label|cli):/, ''));
+  if (!Number.isInteger(commentId) || commentId === 0) {
+    console.error(USAGE);
+    return 1;
+  }
+  
+  acquireStateLock(actor);
+  const force = args.includes('--force');
+  let record: CommandRecord | undefined;
+  try {
+    record = findCommandRecord(idArg);
+  } catch (error) {
+    console.error((error as Error).message);
+    return 1;
+  }
+  const blocker = record && getReplayBlocker(record, force);
+  if (blocker) {
+    console.error(blocker);
+    return 1;
+  }
+  
+  await initSigner();
+  if (record) {
+    const chainBlocker = force ? await checkForcedReplay(record) : null;
+    if (chainBlocker) {
+      console.error(chainBlocker);
+      return 1;
+    }
+    await replayCommand(record, actor, force);
+    return reportCommand(record);
+  }
+  
+  // Comments the bot never recorded a command for, e.g. posted while it was down, are looked up on GitHub
+  await refreshRepositories();
+  const comment = await findComment(getRepositories(), commentId);
+  if (!comment) {
+    console.error(`No comment ${commentId} in the monitored repositories`);
+    return 1;
+  }
+  
+  logger.info(`Replaying comment ${commentId} on operator request`);
+  recordAudit({ event: 'operator_action', actor, issueUrl: comment.issue_url, commentId, outcome: 'replay' });
+  await replayComment(comment);
+  return reportCommand({ commentId, origin: 'comment' });
+};
+
+// reconcile: report wallet transactions no issue was told about, and bounties, transactions and stuck
+// commands without a confirmed transaction
+const runReconcile = async (): Promise<number> => {
+  const limit = Number(getOption('limit') || 1000);
+  if (!Number.isInteger(limit) || limit <= 0) {
+    console.error(USAGE);
+    return 1;
+  }
+  if (DRY_RUN) {
+    console.error('Dry-run bounties are only simulated, so there is nothing on chain to reconcile them with');
+    return 1;
+  }
+  
+  await initSigner();
+  const report = await reconcileWallet(limit);
+  
+  console.log(`Scanned ${report.scanned} transactions of ${report.wallet} since ${report.since}`);
+  console.log(`Orphaned transactions: ${report.orphaned.length}`);
+  for (const orphan of report.orphaned) {
+    console.log(`  ${orphan.signature}  ${orphan.blockTime || 'unknown time'}  ${orphan.reason}` +
+                (orphan.issueUrl ? `  (comment ${orphan.commentId} on ${orphan.issueUrl})` : ''));
+  }
+  console.log(`Records without a confirmed transaction: ${report.unconfirmed.length}`);
+  for (const record of report.unconfirmed) {
+    console.log(`  ${record.kind} ${record.id}  ${record.issueUrl}  ${record.signature ? `tx ${record.signature}  ` : ''}${record.reason}`);
+  }
+  
+  return report.orphaned.length > 0 || report.unconfirmed.length > 0 ? 1 : 0;
+};
+
+const COMMANDS: Record<string, (args: string[]) => Promise<number>> = {
+  create: runCreate,
+  status: runStatus,
+  replay: runReplay,
+  reconcile: runReconcile
+};
+
+const run = COMMANDS[commandName];
+if (!run) {
+  console.error(USAGE);
+  process.exit(1);
+}
+
+// The environment is checked here rather than on import, so a bad setting is reported like any other error
+Promise.resolve()
+  .then(() => {
+    validateConfig();
+    return run(positional);
+  })
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(1);
+  });
@@ -0,0 +1,263 @@
+import { CreateCommandOptions, ParsedCommand } from './types';
+
+const SUBCOMMANDS = ['help', 'status', 'preview', 'cancel', 'topup', 'budget', 'approve', 'reject'];
+
+const OPTIONS = ['--public', '--requirements', '--tags', '--deadline'];
+
+// Usage text posted with every parse error and in reply to `/bounty help`
+export const COMMAND_USAGE =
+  '```\n' +
+  '/bounty <amount> <token> [options]   Fund a bounty on this issue\n' +
+  '/bounty topup <amount> [token]       Add funds to this issue\'s bounty\n' +
+  '/bounty status                       Show this issue\'s bounty\n' +
+  '/bounty preview <amount> <token>     Show the Gib.work task a bounty would create, without funding it\n' +
+  '/bounty cancel                       Cancel this issue\'s bounty and refund it\n' +
+  '/bounty budget                       Show your remaining budget\n' +
+  '/bounty approve <id>                 Approve a large bounty someone else requested\n' +
+  '/bounty reject <id>                  Reject a large bounty someone else requested\n' +
+  '/bounty help                         Show this help\n' +
+  '\n' +
+  'Options:\n' +
+  '  --public                  List the bounty publicly on Gib.work (default: link only, unless the repository is set to public)\n' +
+  '  --requirements "<text>"   What a submission must do (default: the repository\'s requirements, or PR to be merged)\n' +
+  '  --tags a,b                Tags for the bounty (default: the repository\'s tags, or its language)\n' +
+  '  --deadline <when>         e.g. 48h, 10d, 2w or 2026-12-31\n' +
+  '\n' +
+  'Or add a label such as bounty:50-usdc to the issue; removing it before the bounty is funded withdraws it.\n' +
+  '```';
+
+// Edit distance between two strings, used to suggest the command a typo meant
+const levenshtein = (a: string, b: string): number => {
+  const distances = Array.from({ length: b.length + 1 }, (_, index) => index);
+  
+  for (let i = 1; i <= a.length; i++) {
+    let previous = distances[0];
+    distances[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = distances[j];
+      distances[j] = Math.min(
+        distances[j] + 1,
+        distances[j - 1] + 1,
+        previous + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      previous = current;
+    }
+  }
+  
+  return distances[b.length];
+};
+
+// Suggest the closest candidate to a mistyped word, if one is close enough
+const suggest = (word: string, candidates: string[]): string => {
+  const [closest] = candidates
+    .map(candidate => ({ candidate, distance: levenshtein(word.toLowerCase(), candidate) }))
+    .sort((a, b) => a.distance - b.distance);
+  
+  return closest && closest.distance <= 2 ? ` Did you mean \`${closest.candidate}\`?` : '';
+};
+
+// Split a command line into words, keeping quoted text together, including inline option values
+// such as `--requirements="Add tests"`
+const tokenize = (line: string): string[] => {
+  const words: string[] = [];
+  const pattern = /(--[\w-]+=)?(?:"([^"]*)"|'([^']*)'|“([^”]*)”)|(\S+)/g;
+  let match;
+  
+  while ((match = pattern.exec(line)) !== null) {
+    words.push((match[1] ?? '') + (match[2] ?? match[3] ?? match[4] ?? match[5]));
+  }
+  
+  return words;
+};
+
+// Find the `/bounty` line in a comment, ignoring quoted replies and code blocks
+const findCommandLine = (body: string): string | null => {
+  let inCodeBlock = false;
+  
+  for (const rawLine of body.split('\n')) {
+    const line = rawLine.trim();
+    if (line.startsWith('```')) {
+      inCodeBlock = !inCodeBlock;
+      continue;
+    }
+    
+    if (!inCodeBlock && /^\/bounty(\s|$)/i.test(line)) {
+      return line;
+    }
+  }
+  
+  return null;
+};
+
+// Parse a bounty amount, which must be a positive decimal number
+const parseAmount = (value: string | undefined): number | string => {
+  if (value === undefined) {
+    return 'Missing amount.';
+  }
+  
+  if (!/^\d+(\.\d+)?$/.test(value) || !(parseFloat(value) > 0)) {
+    return `\`${value}\` is not a valid amount. Use a positive number such as \`50\` or \`0.5\`.`;
+  }
+  
+  return parseFloat(value);
+};
+
+// Parse a deadline given as a duration (48h, 10d, 2w) or a date, relative to `now`
+export const parseDeadline = (value: string, now = new Date()): Date | string => {
+  const duration = value.match(/^(\d+)([hdw])$/i);
+  if (duration) {
+    const hours = { h: 1, d: 24, w: 24 * 7 }[duration[2].toLowerCase() as 'h' | 'd' | 'w'];
+    return new Date(now.getTime() + parseInt(duration[1], 10) * hours * 60 * 60 * 1000);
+  }
+  
+  if (/^\d{4}-\d{2}-\d{2}/.test(value)) {
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      return `\`${value}\` is not a valid date.`;
+    }
+    if (date <= now) {
+      return `The deadline \`${value}\` is in the past.`;
+    }
+    return date;
+  }
+  
+  return `\`${value}\` is not a valid deadline. Use a duration such as \`48h\`, \`10d\` or \`2w\`, or a date such as \`2026-12-31\`.`;
+};
+
+// Parse the options that follow `/bounty <amount> <token>`
+const parseOptions = (words: string[]): CreateCommandOptions | string => {
+  const options: CreateCommandOptions = { isPublic: false };
+  
+  for (let i = 0; i < words.length; i++) {
+    const [name, inlineValue] = words[i].split(/=(.*)/s);
+    
+    if (!name.startsWith('--')) {
+      return `Unexpected \`${words[i]}\`. Options start with \`--\`.`;
+    }
+    
+    if (!OPTIONS.includes(name)) {
+      return `Unknown option \`${name}\`.${suggest(name, OPTIONS)}`;
+    }
+    
+    if (name === '--public') {
+      options.isPublic = true;
+      continue;
+    }
+    
+    // Values can be given as `--tags a,b` or `--tags=a,b`
+    const value = inlineValue ?? words[++i];
+    if (value === undefined || (inlineValue === undefined && value.startsWith('--'))) {
+      return `Option \`${name}\` needs a value.`;
+    }
+    
+    if (name === '--requirements') {
+      if (!value.trim()) {
+        return 'Requirements cannot be empty.';
+      }
+      options.requirements = value.trim();
+    } else if (name === '--tags') {
+      const tags = value.split(',').map(tag => tag.trim()).filter(Boolean);
+      if (tags.length === 0) {
+        return 'Give at least one tag, e.g. `--tags frontend,bug`.';
+      }
+      options.tags = tags;
+    } else {
+      const deadline = parseDeadline(value);
+      if (typeof deadline === 'string') {
+        return deadline;
+      }
+      options.deadline = deadline.toISOString();
+    }
+  }
+  
+  return options;
+};
+
+// Parse `<amount> <token> [options]`, as given to `/bounty` and `/bounty preview`
+const parseCreate = (words: string[]): { amount: number; token: string; options: CreateCommandOptions } | string => {
+  const [amountWord, token, ...optionWords] = words;
+  const amount = parseAmount(amountWord);
+  if (typeof amount === 'string') {
+    return amount;
+  }
+  
+  if (token === undefined || token.startsWith('--')) {
+    return 'Missing token. Use a symbol such as `USDC` or a token mint address.';
+  }
+  
+  const options = parseOptions(optionWords);
+  if (typeof options === 'string') {
+    return options;
+  }
+  
+  return { amount, token, options };
+};
+
+// Parse the `/bounty` command in a comment body.
+// Returns null when the comment has no command, and an `invalid` command with a precise error for bad input.
+export const parseCommand = (body: string): ParsedCommand | null => {
+  const line = body ? findCommandLine(body) : null;
+  if (!line) {
+    return null;
+  }
+  
+  const [, first, ...rest] = tokenize(line);
+  const invalid = (error: string): ParsedCommand => ({ type: 'invalid', error });
+  
+  if (first === undefined) {
+    return invalid('Missing amount and token.');
+  }
+  
+  // `/bounty <amount> <token> [options]`
+  if (/^[\d.]/.test(first)) {
+    const create = parseCreate([first, ...rest]);
+    return typeof create === 'string' ? invalid(create) : { type: 'create', ...create };
+  }
+  
+  const subcommand = first.toLowerCase();
+  if (!SUBCOMMANDS.includes(subcommand)) {
+    return invalid(`Unknown subcommand \`${first}\`.${suggest(first, SUBCOMMANDS)}`);
+  }
+  
+  // `/bounty preview <amount> <token> [options]` takes the same arguments as the command it previews
+  if (subcommand === 'preview') {
+    const preview = parseCreate(rest);
+    return typeof preview === 'string' ?
+      invalid(`${preview} Usage: \`/bounty preview <amount> <token> [options]\`.`) :
+      { type: 'preview', ...preview };
+  }
+  
+  if (subcommand === 'topup') {
+    const amount = parseAmount(rest[0]);
+    if (typeof amount === 'string') {
+      return invalid(amount);
+    }
+    if (rest.length > 2) {
+      return invalid(`Unexpected \`${rest[2]}\`. Usage: \`/bounty topup <amount> [token]\`.`);
+    }
+    return { type: 'topup', amount, token: rest[1] };
+  }
+  
+  if (subcommand === 'approve' || subcommand === 'reject') {
+    if (rest.length !== 1 || !/^[0-9a-f]{6}$/i.test(rest[0])) {
+      return invalid(`Usage: \`/bounty ${subcommand} <id>\`, with the 6-character ID from the approval request.`);
+    }
+    return { type: subcommand, id: rest[0].toLowerCase() };
+  }
+  
+  if (rest.length > 0) {
+    return invalid(`\`/bounty ${subcommand}\` takes no arguments, but got \`${rest.join(' ')}\`.`);
+  }
+  
+  return { type: subcommand as 'help' | 'status' | 'cancel' | 'budget' };
+};
+
+// Parse a bounty label such as `bounty:50-usdc` into the amount and token it asks for.
+// Returns null for any other label, including malformed bounty labels.
+export const parseBountyLabel = (label: string): { amount: number; token: string } | null => {
+  const match = label.trim().match(/^bounty:\s*(\d+(?:\.\d+)?)-([A-Za-z0-9]+)$/i);
+  if (!match || !(parseFloat(match[1]) > 0)) {
+    return null;
+  }
+  return { amount: parseFloat(match[1]), token: match[2] };
+};
@@ -1,49 +1,302 @@
 import dotenv from 'dotenv';
-import { AuthorizedUser } from './types';
+import path from 'path';
+import { AuthorizationRule, AuthorizedUser, BountyRole } from './types';
 
 dotenv.config();
 
 // Environment variables
 export const GITHUB_TOKEN = process.env.GITHUB_TOKEN || '';
 export const WALLET_PRIVATE_KEY = process.env.WALLET_PRIVATE_KEY || '';
+
+// Must match the signer's public key; optional except with a remote signer, whose key it pins
 export const WALLET_PUBLIC_KEY = process.env.WALLET_PUBLIC_KEY || '';
 
+// How transactions are signed: 'env' (WALLET_PRIVATE_KEY), 'keypair-file', 'keystore' or 'remote'
+export const SIGNER_TYPE = (process.env.SIGNER_TYPE || (WALLET_PRIVATE_KEY ? 'env' : '')).toLowerCase();
+
+// Solana CLI keypair JSON file, for SIGNER_TYPE=keypair-file
+export const SIGNER_KEYPAIR_PATH = process.env.SIGNER_KEYPAIR_PATH || '';
+
+// Encrypted keystore and its passphrase (or a file holding it), for SIGNER_TYPE=keystore
+export const SIGNER_KEYSTORE_PATH = process.env.SIGNER_KEYSTORE_PATH || '';
+export const SIGNER_KEYSTORE_PASSPHRASE = process.env.SIGNER_KEYSTORE_PASSPHRASE || '';
+export const SIGNER_KEYSTORE_PASSPHRASE_FILE = process.env.SIGNER_KEYSTORE_PASSPHRASE_FILE || '';
+
+// External signer as http(s)://host:port or unix:/path/to.sock, for SIGNER_TYPE=remote
+export const SIGNER_URL = process.env.SIGNER_URL || '';
+export const SIGNER_AUTH_TOKEN = process.env.SIGNER_AUTH_TOKEN || '';
+
 // Solana network configuration
 export const SOLANA_RPC_URL = process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com';
 
-// GitHub repositories to monitor
+// Gib.work API, overridable to point at a local stub
+export const GIBWORK_API_URL = (process.env.GIBWORK_API_URL || 'https://api2.gib.work').replace(/\/$/, '');
+
+// Per-request timeout and how often to retry Gib.work timeouts, rate limits and 5xx errors
+export const GIBWORK_TIMEOUT_MS = parseInt(process.env.GIBWORK_TIMEOUT_MS || '15000', 10);
+export const GIBWORK_MAX_RETRIES = parseInt(process.env.GIBWORK_MAX_RETRIES || '3', 10);
+
+// GitHub API, overridable for GitHub Enterprise or a local stub
+export const GITHUB_API_URL = (process.env.GITHUB_API_URL || 'https://api.github.com').replace(/\/$/, '');
+
+// How often to retry GitHub requests that were rate limited or failed with a server error
+export const GITHUB_MAX_RETRIES = parseInt(process.env.GITHUB_MAX_RETRIES || '3', 10);
+
+// Repositories polled at once, and bounty commands handled at once (one at a time per issue)
+export const POLL_CONCURRENCY = parseInt(process.env.POLL_CONCURRENCY || '4', 10);
+export const COMMAND_CONCURRENCY = parseInt(process.env.COMMAND_CONCURRENCY || '4', 10);
+
+// Dry-run mode simulates transactions instead of broadcasting them
+export const DRY_RUN = process.env.DRY_RUN === 'true';
+
+// In dry-run mode, 'post' issue comments with a DRY RUN prefix or only 'log' them
+export const DRY_RUN_COMMENTS = (process.env.DRY_RUN_COMMENTS || 'post').toLowerCase();
+
+// YAML or JSON file with bounty settings, globally and per repository. It is reloaded when it
+// changes; the env vars below override it, and secrets only ever come from the environment.
+export const CONFIG_FILE = process.env.CONFIG_FILE || '';
+
+// GitHub repositories to monitor, replacing the config file's list when set
 export const REPOSITORIES = (process.env.REPOSITORIES || '').split(',').filter(Boolean);
 
-// Authorized users who can create bounties
+// How often owner/* and owner/topic:<topic> repository patterns are resolved again
+export const REPO_DISCOVERY_CRON = process.env.REPO_DISCOVERY_CRON || '*/15 * * * *';
+
+// Tokens each repository accepts, e.g. "owner/repo=USDC,SOL;owner/other=BONK"
+// Repositories without an entry fall back to the config file, and accept any token without one there
+export const REPO_ALLOWED_TOKENS: Record<string, string[]> = Object.fromEntries(
+  (process.env.REPO_ALLOWED_TOKENS || '')
+    .split(';')
+    .filter(Boolean)
+    .map(entry => {
+      const [repo, tokens = ''] = entry.split('=');
+      return [repo.trim().toLowerCase(), tokens.split(',').map(token => token.trim()).filter(Boolean)];
+    })
+);
+
+// Parse per-token amounts, e.g. "USDC=500,SOL=5", keyed by upper-cased symbol or by mint address
+const parseTokenAmounts = (value: string | undefined): Record<string, number> =>
+  Object.fromEntries(
+    (value || '')
+      .split(',')
+      .filter(Boolean)
+      .map(entry => {
+        const [token, amount] = entry.split('=').map(part => part.trim());
+        // Mint addresses are case-sensitive base58, symbols are not
+        return [token.length >= 32 ? token : token.toUpperCase(), parseFloat(amount)];
+      })
+  );
+
+// Spending limits, per token. Tokens without an entry are not limited.
+export const MAX_BOUNTY_AMOUNT = parseTokenAmounts(process.env.MAX_BOUNTY_AMOUNT);
+export const USER_DAILY_BUDGET = parseTokenAmounts(process.env.USER_DAILY_BUDGET);
+export const USER_WEEKLY_BUDGET = parseTokenAmounts(process.env.USER_WEEKLY_BUDGET);
+export const USER_MONTHLY_BUDGET = parseTokenAmounts(process.env.USER_MONTHLY_BUDGET);
+export const REPO_TOTAL_BUDGET = parseTokenAmounts(process.env.REPO_TOTAL_BUDGET);
+
+// Bounties of at least these amounts need a second authorized user's approval, per token, e.g. "USDC=500"
+export const APPROVAL_THRESHOLDS = parseTokenAmounts(process.env.APPROVAL_THRESHOLDS);
+
+// How long an approval request stays open
+export const APPROVAL_EXPIRY_HOURS = parseFloat(process.env.APPROVAL_EXPIRY_HOURS || '48');
+
+// SOL kept back for transaction fees and account rent when checking a bounty can be paid
+export const MIN_SOL_FOR_FEES = parseFloat(process.env.MIN_SOL_FOR_FEES || '0.01');
+
+// Wallet balances below these thresholds trigger an alert, per token, e.g. "SOL=0.5,USDC=100"
+export const LOW_BALANCE_THRESHOLDS = parseTokenAmounts(process.env.LOW_BALANCE_THRESHOLDS);
+
+// How often balances are compared with their thresholds
+export const BALANCE_CHECK_CRON = process.env.BALANCE_CHECK_CRON || '0 * * * *';
+
+// Issue that low-funds alerts are posted to, as "owner/repo#123"; alerts are only logged without it
+export const ALERT_ISSUE = (() => {
+  const match = (process.env.ALERT_ISSUE || '').match(/^([^/\s]+)\/([^#\s]+)#(\d+)$/);
+  return match ? { owner: match[1], repo: match[2], issueNumber: parseInt(match[3], 10) } : null;
+})();
+
+// Days after which a bounty without a linked pull request expires (0 disables expiry)
+export const BOUNTY_EXPIRY_DAYS = parseInt(process.env.BOUNTY_EXPIRY_DAYS || '0', 10);
+
+// Longest issue description copied into a task; longer ones are cut and point to the issue
+export const BOUNTY_BODY_MAX_LENGTH = parseInt(process.env.BOUNTY_BODY_MAX_LENGTH || '10000', 10);
+
+// Server configuration
+export const PORT = parseInt(process.env.PORT || '3000', 10);
+
+// Secret used to verify GitHub webhook signatures
+export const GITHUB_WEBHOOK_SECRET = process.env.GITHUB_WEBHOOK_SECRET || '';
+
+// Bearer token for the admin API on the same port; the admin API is off without it
+export const ADMIN_API_TOKEN = process.env.ADMIN_API_TOKEN || '';
+
+// How the bot receives comments: 'webhook' (GitHub pushes events) or 'polling' (fallback)
+// Defaults to webhook mode when a webhook secret is configured
+export const BOT_MODE = (process.env.BOT_MODE || (GITHUB_WEBHOOK_SECRET ? 'webhook' : 'polling')).toLowerCase();
+
+// Local state file recording processed comments and bounty commands
+// Dry runs get their own file so simulated bounties never mix with real ones
+export const STATE_FILE = process.env.STATE_FILE || (DRY_RUN ? 'data/state.dry-run.jsonl' : 'data/state.jsonl');
+
+// How long processed comments and command records are kept
+export const STATE_RETENTION_DAYS = parseInt(process.env.STATE_RETENTION_DAYS || '30', 10);
+
+// Append-only, hash-chained record of every command, authorization decision and fund movement.
+// It is never compacted; it lives next to the state file unless set otherwise.
+export const AUDIT_LOG_FILE = process.env.AUDIT_LOG_FILE ||
+  path.join(path.dirname(STATE_FILE), DRY_RUN ? 'audit.dry-run.jsonl' : 'audit.jsonl');
+
+// Logging: 'debug', 'info', 'warn' or 'error', written as 'json' lines or human-readable 'text'
+export const LOG_LEVEL = (process.env.LOG_LEVEL || 'info').toLowerCase();
+export const LOG_FORMAT = (process.env.LOG_FORMAT || 'json').toLowerCase();
+
+// Every role a user can hold for bounties
+export const BOUNTY_ROLES: BountyRole[] = ['create', 'cancel', 'approve'];
+
+// Users authorized in every monitored repository, with every role, replacing the config file's defaults when set
 export const AUTHORIZED_USERS: AuthorizedUser[] = 
   (process.env.AUTHORIZED_USERS || '')
     .split(',')
     .filter(Boolean)
-    .map(username => ({ username }));
+    .map(username => ({ username: username.trim(), roles: BOUNTY_ROLES }));
 
-// Check if a user is authorized
-export const isAuthorized = (username: string): boolean => {
-  // If no authorized users are specified, no one is authorized
-  if (AUTHORIZED_USERS.length === 0) {
-    return false;
-  }
-  
-  return AUTHORIZED_USERS.some(user => user.username.toLowerCase() === username.toLowerCase());
+// Parse an authorization rule such as "team:org/maintainers@create+approve"
+// A rule without "@roles" grants every role
+export const parseAuthorizationRule = (rule: string): AuthorizationRule => {
+  const [subject, roles] = rule.trim().split('@');
+  const separator = subject.indexOf(':');
+  return {
+    type: subject.slice(0, separator),
+    value: subject.slice(separator + 1),
+    roles: roles ? roles.split('+') : BOUNTY_ROLES
+  } as AuthorizationRule;
 };
 
-// Validation
-if (!GITHUB_TOKEN) {
-  throw new Error('GITHUB_TOKEN is required');
-}
+// Per-repository authorization rules, replacing those in the config file for the listed repositories, e.g.
+// "owner/repo=user:alice,team:org/maintainers@create+approve,permission:maintain;owner/other=user:bob@create"
+export const REPO_AUTHORIZATION: Record<string, AuthorizationRule[]> = Object.fromEntries(
+  (process.env.REPO_AUTHORIZATION || '')
+    .split(';')
+    .filter(Boolean)
+    .map(entry => {
+      const [repo, rules = ''] = entry.split('=');
+      return [repo.trim().toLowerCase(), rules.split(',').filter(Boolean).map(parseAuthorizationRule)];
+    })
+);
 
-if (!WALLET_PRIVATE_KEY) {
-  throw new Error('WALLET_PRIVATE_KEY is required');
-}
+const PERMISSION_LEVELS = ['read', 'triage', 'write', 'maintain', 'admin'];
 
-if (!WALLET_PUBLIC_KEY) {
-  throw new Error('WALLET_PUBLIC_KEY is required');
-}
+// Check a parsed authorization rule, returning what is wrong with it or null if it is valid
+export const validateAuthorizationRule = (rule: AuthorizationRule): string | null => {
+  if (!['user', 'team', 'permission'].includes(rule.type) || !rule.value) {
+    return `invalid rule '${rule.type}:${rule.value}'; use user:<login>, team:<org>/<team-slug> or permission:<level>`;
+  }
+  if (rule.type === 'team' && !rule.value.includes('/')) {
+    return `team '${rule.value}' must be written as org/team-slug`;
+  }
+  if (rule.type === 'permission' && !PERMISSION_LEVELS.includes(rule.value)) {
+    return `permission must be one of ${PERMISSION_LEVELS.join(', ')}`;
+  }
+  const invalidRole = rule.roles.find(role => !BOUNTY_ROLES.includes(role));
+  return invalidRole ? `unknown role '${invalidRole}'` : null;
+};
+
+// How long GitHub permission and team membership lookups are cached
+export const AUTH_CACHE_TTL_SECONDS = parseInt(process.env.AUTH_CACHE_TTL_SECONDS || '300', 10);
 
-if (REPOSITORIES.length === 0) {
-  throw new Error('REPOSITORIES is required');
-}
\ No newline at end of file
+// Check the environment, throwing on the first invalid setting. The bot and the CLI call this before
+// anything else rather than it running on import, so a bad setting is reported like any other error.
+export const validateConfig = () => {
+  if (!GITHUB_TOKEN) {
+    throw new Error('GITHUB_TOKEN is required');
+  }
+  
+  if (!SIGNER_TYPE) {
+    throw new Error('SIGNER_TYPE is required (or WALLET_PRIVATE_KEY for the env signer)');
+  }
+  
+  if (SIGNER_TYPE === 'env' && !WALLET_PRIVATE_KEY) {
+    throw new Error('WALLET_PRIVATE_KEY is required for SIGNER_TYPE=env');
+  }
+  
+  if (SIGNER_TYPE === 'keypair-file' && !SIGNER_KEYPAIR_PATH) {
+    throw new Error('SIGNER_KEYPAIR_PATH is required for SIGNER_TYPE=keypair-file');
+  }
+  
+  if (SIGNER_TYPE === 'keystore' && (!SIGNER_KEYSTORE_PATH || !(SIGNER_KEYSTORE_PASSPHRASE || SIGNER_KEYSTORE_PASSPHRASE_FILE))) {
+    throw new Error('SIGNER_KEYSTORE_PATH and SIGNER_KEYSTORE_PASSPHRASE (or SIGNER_KEYSTORE_PASSPHRASE_FILE) are required for SIGNER_TYPE=keystore');
+  }
+  
+  if (SIGNER_TYPE === 'remote' && (!SIGNER_URL || !WALLET_PUBLIC_KEY)) {
+    throw new Error('SIGNER_URL and WALLET_PUBLIC_KEY are required for SIGNER_TYPE=remote');
+  }
+  
+  for (const [name, limits] of Object.entries({
+    MAX_BOUNTY_AMOUNT,
+    USER_DAILY_BUDGET,
+    USER_WEEKLY_BUDGET,
+    USER_MONTHLY_BUDGET,
+    REPO_TOTAL_BUDGET,
+    LOW_BALANCE_THRESHOLDS,
+    APPROVAL_THRESHOLDS
+  })) {
+    for (const [token, amount] of Object.entries(limits)) {
+      if (!(amount >= 0)) {
+        throw new Error(`${name} has an invalid amount for ${token}`);
+      }
+    }
+  }
+  
+  for (const [repo, rules] of Object.entries(REPO_AUTHORIZATION)) {
+    for (const rule of rules) {
+      const problem = validateAuthorizationRule(rule);
+      if (problem) {
+        throw new Error(`REPO_AUTHORIZATION for ${repo}: ${problem}`);
+      }
+    }
+  }
+  
+  if (process.env.ALERT_ISSUE && !ALERT_ISSUE) {
+    throw new Error(`ALERT_ISSUE must look like owner/repo#123, got '${process.env.ALERT_ISSUE}'`);
+  }
+  
+  if (!(APPROVAL_EXPIRY_HOURS > 0)) {
+    throw new Error('APPROVAL_EXPIRY_HOURS must be a positive number');
+  }
+  
+  if (!(MIN_SOL_FOR_FEES >= 0)) {
+    throw new Error('MIN_SOL_FOR_FEES must be a non-negative number');
+  }
+  
+  if (!(GIBWORK_TIMEOUT_MS > 0) || !(GIBWORK_MAX_RETRIES >= 0)) {
+    throw new Error('GIBWORK_TIMEOUT_MS must be positive and GIBWORK_MAX_RETRIES non-negative');
+  }
+  
+  if (!(GITHUB_MAX_RETRIES >= 0)) {
+    throw new Error('GITHUB_MAX_RETRIES must be a non-negative number');
+  }
+  
+  if (!(POLL_CONCURRENCY >= 1) || !(COMMAND_CONCURRENCY >= 1)) {
+    throw new Error('POLL_CONCURRENCY and COMMAND_CONCURRENCY must be at least 1');
+  }
+  
+  if (!['debug', 'info', 'warn', 'error'].includes(LOG_LEVEL)) {
+    throw new Error(`LOG_LEVEL must be one of debug, info, warn or error, got '${LOG_LEVEL}'`);
+  }
+  
+  if (LOG_FORMAT !== 'json' && LOG_FORMAT !== 'text') {
+    throw new Error(`LOG_FORMAT must be either 'json' or 'text', got '${LOG_FORMAT}'`);
+  }
+  
+  if (DRY_RUN_COMMENTS !== 'post' && DRY_RUN_COMMENTS !== 'log') {
+    throw new Error(`DRY_RUN_COMMENTS must be either 'post' or 'log', got '${DRY_RUN_COMMENTS}'`);
+  }
+  
+  if (BOT_MODE !== 'webhook' && BOT_MODE !== 'polling') {
+    throw new Error(`BOT_MODE must be either 'webhook' or 'polling', got '${BOT_MODE}'`);
+  }
+  
+  if (BOT_MODE === 'webhook' && !GITHUB_WEBHOOK_SECRET) {
+    throw new Error('GITHUB_WEBHOOK_SECRET is required in webhook mode');
+  }
+};
@@ -0,0 +1,342 @@
+import { BountyCommand, BountyTask, GitHubIssue, GitHubRepository, TokenInfo } from './types';
+import { BOUNTY_BODY_MAX_LENGTH } from './config';
+import {
+  commentOnIssueUrl,
+  getContributingGuideUrl,
+  getIssueFromUrl,
+  getRepositoryFromUrl,
+  getRepoInfoFromUrl
+} from './github';
+import { getRepoSettings, renderTemplate } from './settings';
+import { resolveToken } from './tokens';
+import { FUNDED_LABEL } from './indicators';
+import { logger } from './logger';
+
+// Most tags a task gets from the issue's labels and the repository's topics
+const MAX_TAGS = 10;
+
+// Raw HTML elements whose contents are dropped along with them
+const DROPPED_ELEMENTS = 'script|style|iframe|object|embed|form';
+
+// Schemes a link in a task may point to; images are only ever linked over http(s)
+const LINK_SCHEMES = /^(?:https?|mailto):/i;
+const IMAGE_SCHEMES = /^https?:/i;
+
+// Named character references a renderer would decode in a link destination, enough to spell out a scheme
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', colon: ':', sol: '/', period: '.', lpar: '(', rpar: ')', quot: '"', apos: "'",
+  lt: '<', gt: '>', tab: '\t', newline: '\n', nbsp: ' '
+};
+
+// Decode a link destination the way a renderer does before it becomes a URL, then check its scheme
+// against an allowlist. Returns the URL ready to write back as a Markdown destination, or null.
+const toSafeUrl = (destination: string, schemes: RegExp): string | null => {
+  const url = destination
+    .replace(/\\([!-/:-@[-`{-~])/g, '$1')
+    .replace(/&(?:#(\d+)|#x([0-9a-f]+)|([a-z][a-z0-9]*));/gi, (reference, decimal?: string, hex?: string, name?: string) => {
+      if (name) {
+        return NAMED_ENTITIES[name.toLowerCase()] ?? reference;
+      }
+      const code = decimal ? parseInt(decimal, 10) : parseInt(hex!, 16);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '�';
+    })
+    .trim();
+  
+  if (!schemes.test(url)) {
+    return null;
+  }
+  return url.replace(/[\s<>()\\]/g, char => char === '(' ? '%28' : char === ')' ? '%29' : encodeURIComponent(char));
+};
+
+// An embedded image becomes a link to it, so the task never loads content from elsewhere
+const imageLink = (alt: string, src: string): string => {
+  const url = toSafeUrl(src, IMAGE_SCHEMES);
+  return url ? `[🖼️ ${alt.trim() || 'image'}](${url})` : '';
+};
+
+// Skip spaces and tabs and at most one line break
+const skipSpace = (text: string, index: number): number => {
+  let next = index;
+  while (text[next] === ' ' || text[next] === '\t') {
+    next++;
+  }
+  if (text[next] === '\n') {
+    next++;
+    while (text[next] === ' ' || text[next] === '\t') {
+      next++;
+    }
+  }
+  return next;
+};
+
+// Find the `]` closing the `[` at an index, skipping escaped and nested brackets
+const findClosingBracket = (text: string, open: number): number => {
+  let depth = 0;
+  for (let index = open; index < text.length; index++) {
+    if (text[index] === '\\') {
+      index++;
+    } else if (text[index] === '[') {
+      depth++;
+    } else if (text[index] === ']' && --depth === 0) {
+      return index;
+    }
+  }
+  return -1;
+};
+
+// Parse the `destination "title")` of an inline link starting just after its `(`, as CommonMark does:
+// a destination in angle brackets or without spaces and with balanced parentheses, then an optional title
+const parseDestination = (text: string, start: number): { destination: string; end: number } | null => {
+  let index = skipSpace(text, start);
+  let destination: string;
+  
+  if (text[index] === '<') {
+    let close = index + 1;
+    while (close < text.length && !'<>\n'.includes(text[close])) {
+      close += text[close] === '\\' ? 2 : 1;
+    }
+    if (text[close] !== '>') {
+      return null;
+    }
+    destination = text.slice(index + 1, close);
+    index = close + 1;
+  } else {
+    let depth = 0;
+    let close = index;
+    // A destination ends at whitespace or a control character, as in CommonMark
+    // eslint-disable-next-line no-control-regex
+    while (close < text.length && !/[\s\u0000-\u001f\u007f]/.test(text[close])) {
+      if (text[close] === '\\') {
+        close++;
+      } else if (text[close] === '(') {
+        depth++;
+      } else if (text[close] === ')' && depth-- === 0) {
+        break;
+      }
+      close++;
+    }
+    if (depth > 0) {
+      return null;
+    }
+    destination = text.slice(index, close);
+    index = close;
+  }
+  
+  const afterDestination = index;
+  index = skipSpace(text, index);
+  const titleEnd = { '"': '"', "'": "'", '(': ')' }[text[index]];
+  if (titleEnd && index > afterDestination) {
+    let close = index + 1;
+    while (close < text.length && text[close] !== titleEnd) {
+      close += text[close] === '\\' ? 2 : 1;
+    }
+    if (close >= text.length) {
+      return null;
+    }
+    index = skipSpace(text, close + 1);
+  }
+  
+  return text[index] === ')' ? { destination, end: index + 1 } : null;
+};
+
+// Rewrite inline links and images: a link stays only if it goes to an allowed scheme, otherwise just
+// its text is left, and an image becomes a link to it
+const rewriteInlineLinks = (text: string): string => {
+  let result = '';
+  let index = 0;
+  
+  for (let open = text.indexOf('['); open !== -1; open = text.indexOf('[', open + 1)) {
+    if (open < index || text[open - 1] === '\\') {
+      continue;
+    }
+    const close = findClosingBracket(text, open);
+    const link = close !== -1 && text[close + 1] === '(' ? parseDestination(text, close + 2) : null;
+    if (!link) {
+      continue;
+    }
+  
+    const isImage = text[open - 1] === '!';
+    const label = text.slice(open + 1, close);
+    result += text.slice(index, isImage ? open - 1 : open);
+    if (isImage) {
+      result += imageLink(label, link.destination);
+    } else {
+      const url = toSafeUrl(link.destination, LINK_SCHEMES);
+      const linkText = rewriteInlineLinks(label);
+      // A dropped link's text ending in `]` must not make a new link with a `(` after it
+      result += url ? `[${linkText}](${url})` : linkText + (linkText.endsWith(']') && text[link.end] === '(' ? '\\' : '');
+    }
+    index = link.end;
+  }
+  
+  return result + text.slice(index);
+};
+
+// Drop link reference definitions (`[label]: destination "title"`) whose destination isn't allowed,
+// taking the rest of the line with them
+const rewriteReferenceDefinitions = (text: string): string =>
+  text.replace(/\[((?:[^[\]\\]|\\.)+)\]:[ \t]*\n?[ \t]*(<[^<>\n]*>|\S+)([^\n]*)/g, (_, label: string, destination: string, rest: string) => {
+    const url = toSafeUrl(destination.startsWith('<') ? destination.slice(1, -1) : destination, LINK_SCHEMES);
+    return url ? `[${label}]: ${url}${rest}` : '';
+  });
+
+// Make Markdown prose safe to show on Gib.work: no comments, raw HTML, embedded images or links to
+// anything but web pages and email addresses. HTML goes first, so removing it can't join text into a
+// link the link checks didn't see; autolinks (`<scheme:...>`) aren't tags and are checked on their own.
+// Reference images (`![alt][label]`) become plain links.
+const sanitizeProse = (text: string): string => {
+  const withoutHtml = text
+    .replace(/<!--[\s\S]*?(?:-->|$)/g, '')
+    .replace(/<img\b[^>]*>/gi, tag => {
+      const src = tag.match(/\ssrc\s*=\s*["']?([^"'\s>]+)/i);
+      const alt = tag.match(/\salt\s*=\s*["']([^"']*)/i);
+      return src ? imageLink(alt?.[1] || '', src[1]) : '';
+    })
+    .replace(new RegExp(`<(${DROPPED_ELEMENTS})\\b[\\s\\S]*?(?:</\\1\\s*>|$)`, 'gi'), '')
+    .replace(/<\/?[a-z][a-z0-9-]*(?=[\s/>])[^>]*>/gi, '')
+    .replace(/<([a-z][a-z0-9+.-]{1,31}:[^\s<>]*)>/gi, (autolink, url: string) => toSafeUrl(url, LINK_SCHEMES) ? autolink : '');
+  
+  return rewriteReferenceDefinitions(rewriteInlineLinks(withoutHtml))
+    .replace(/!\[/g, '[')
+    .replace(/\n{3,}/g, '\n\n')
+    .replace(/\n{2,}$/, '\n');
+};
+
+// Sanitize an issue description, leaving fenced code blocks as they are
+export const sanitizeMarkdown = (markdown: string): string => {
+  const blocks: string[] = [];
+  let prose: string[] = [];
+  let fence: string | null = null;
+  
+  for (const line of markdown.replace(/\r\n?/g, '\n').split('\n')) {
+    const marker = line.trim().match(/^(`{3,}|~{3,})/)?.[1];
+  
+    if (fence === null && marker) {
+      blocks.push(sanitizeProse(prose.join('\n')), line);
+      prose = [];
+      fence = marker;
+    } else if (fence !== null) {
+      blocks.push(line);
+      if (marker && marker[0] === fence[0] && marker.length >= fence.length && line.trim() === marker) {
+        fence = null;
+      }
+    } else {
+      prose.push(line);
+    }
+  }
+  
+  blocks.push(sanitizeProse(prose.join('\n')));
+  return blocks.join('\n').trim();
+};
+
+// Cut Markdown down to a length at a paragraph or word break, closing a code block left open
+export const truncateMarkdown = (markdown: string, maxLength: number): string => {
+  if (markdown.length <= maxLength) {
+    return markdown;
+  }
+  
+  let cut = markdown.slice(0, maxLength);
+  const paragraphBreak = cut.lastIndexOf('\n\n');
+  cut = paragraphBreak > maxLength / 2 ? cut.slice(0, paragraphBreak) : cut.slice(0, Math.max(cut.search(/\s\S*$/), 0));
+  
+  const fences = cut.match(/^\s*(`{3,}|~{3,})/gm) || [];
+  if (fences.length % 2 === 1) {
+    cut += `\n${fences[fences.length - 1].trim()}`;
+  }
+  
+  return `${cut.trimEnd()}\n\n_…the rest of the description is on the issue._`;
+};
+
+// Tags from the issue's labels, the repository's topics and its language, leaving out the bot's own labels
+const collectTags = (issue: GitHubIssue, repository: GitHubRepository): string[] => {
+  const seen = new Set<string>();
+  const candidates = [
+    ...(issue.labels || []).map(label => label.name).filter(name => name !== FUNDED_LABEL && !/^bounty:/i.test(name)),
+    ...(repository.topics || []),
+    repository.language
+  ];
+  
+  return candidates
+    .filter((tag): tag is string => {
+      if (!tag || seen.has(tag.toLowerCase())) {
+        return false;
+      }
+      seen.add(tag.toLowerCase());
+      return true;
+    })
+    .slice(0, MAX_TAGS);
+};
+
+// Find the contributing guide to point solvers at; a task is still worth creating without it
+const findContributingGuide = async (owner: string, repo: string): Promise<string | null> => {
+  try {
+    return await getContributingGuideUrl(owner, repo);
+  } catch (error) {
+    logger.warn(`Could not look up the contributing guide of ${owner}/${repo}`, { error });
+    return null;
+  }
+};
+
+// Build the Gib.work task for a bounty command from its issue, the repository and the repository's
+// settings. Command options win over the settings; the task always links back to the issue.
+export const buildBountyTask = async (command: BountyCommand, token: TokenInfo): Promise<BountyTask> => {
+  const issue = await getIssueFromUrl(command.issueUrl);
+  const repository = await getRepositoryFromUrl(issue.repository_url);
+  const { owner, repo } = getRepoInfoFromUrl(command.issueUrl);
+  const settings = getRepoSettings(`${owner}/${repo}`);
+  const contributingUrl = await findContributingGuide(owner, repo);
+  
+  const body = truncateMarkdown(sanitizeMarkdown(issue.body || ''), BOUNTY_BODY_MAX_LENGTH);
+  const values = {
+    title: issue.title,
+    body: body || 'No description provided',
+    url: issue.html_url,
+    repository: `${owner}/${repo}`,
+    amount: String(command.amount),
+    token: token.symbol,
+    requestedBy: command.requestedBy
+  };
+  // The values are issue text anyone could write, so the rendered result is sanitized, not just the body
+  const title = sanitizeMarkdown(renderTemplate(settings.templates.title, values));
+  const collectedTags = collectTags(issue, repository);
+  
+  return {
+    title: command.parentTaskId ? `${title} (top-up)` : title,
+    content: (command.parentTaskId ? `Top-up of https://app.gib.work/tasks/${command.parentTaskId}\n\n` : '') +
+             sanitizeMarkdown(renderTemplate(settings.templates.content, values)) + `\n\n---\n\n` +
+             `- Issue: [${owner}/${repo}#${issue.number}](${issue.html_url})\n` +
+             (contributingUrl ? `- Contributing guide: ${contributingUrl}\n` : ''),
+    requirements: command.options.requirements || settings.requirements,
+    tags: command.options.tags || settings.tags || (collectedTags.length > 0 ? collectedTags : ['unknown'])
+  };
+};
+
+// Reply to `/bounty preview` with the task a bounty command would create, without funding anything
+export const postBountyPreview = async (command: BountyCommand): Promise<void> => {
+  let token: TokenInfo;
+  let task: BountyTask;
+  try {
+    const { owner, repo } = getRepoInfoFromUrl(command.issueUrl);
+    token = await resolveToken(command.token, `${owner}/${repo}`);
+    task = await buildBountyTask(command, token);
+  } catch (error) {
+    logger.error('Error building bounty preview', { error });
+    await commentOnIssueUrl(command.issueUrl, `❌ Could not preview the bounty: ${(error as Error).message}`);
+    return;
+  }
+  
+  // A fence longer than any backtick run in the content, so the content can't close it early
+  const fence = '`'.repeat(Math.max(3, ...(task.content.match(/`+/g) || []).map(run => run.length + 1)));
+  
+  await commentOnIssueUrl(
+    command.issueUrl,
+    `👀 Preview of the Gib.work task for ${command.amount} ${token.symbol}. Nothing has been funded.\n\n` +
+    `- Title: ${task.title}\n` +
+    `- Tags: ${task.tags.join(', ')}\n` +
+    `- Requirements: ${task.requirements}\n` +
+    `- Visibility: ${command.options.isPublic ? 'Public' : 'Private, only accessible via link'}\n` +
+    (command.options.deadline ? `- Deadline: ${command.options.deadline.slice(0, 10)}\n` : '') +
+    `\n<details><summary>Content</summary>\n\n${fence}markdown\n${task.content}\n${fence}\n</details>\n\n` +
+    `Post the same command without \`preview\` to fund it.`
+  );
+};
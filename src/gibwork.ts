@@ -0,0 +1,200 @@
+import fetch, { Response } from 'node-fetch';
+import crypto from 'crypto';
+import { BountyRequestPayload, BountyResponse, GibworkClient, GibworkTask } from './types';
+import { GIBWORK_API_URL, GIBWORK_MAX_RETRIES, GIBWORK_TIMEOUT_MS } from './config';
+import { logger } from './logger';
+
+// First backoff delay; each retry waits twice as long as the one before
+const RETRY_BASE_DELAY_MS = 500;
+
+// Longest we honour a Retry-After header for
+const MAX_RETRY_DELAY_MS = 30000;
+
+// A failed Gib.work call
+export class GibworkError extends Error {
+  constructor(message: string, readonly status?: number, readonly details?: string) {
+    super(message);
+    this.name = this.constructor.name;
+  }
+}
+
+// Gib.work rejected the request itself (a 4xx), e.g. a bad amount or an unknown task.
+// Retrying won't help; whoever issued the command has to change something.
+export class GibworkUserError extends GibworkError {}
+
+// Gib.work is unavailable or misbehaving: a 5xx, rate limiting, a timeout, a network
+// error or a response we can't read. Worth trying again later.
+export class GibworkServiceError extends GibworkError {}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Whether a parsed JSON value is an object whose fields can be read
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Read a `message` or `error` field out of an error response, falling back to the raw text
+const describeErrorBody = (text: string): string => {
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch (error) {
+    return text;
+  }
+  
+  const message = isRecord(body) ? body.message || body.error : undefined;
+  return typeof message === 'string' ? message : text;
+};
+
+// Backoff before the next attempt, preferring the server's Retry-After when it gives one
+const getRetryDelay = (attempt: number, response?: Response): number => {
+  const retryAfter = Number(response?.headers.get('retry-after'));
+  if (retryAfter > 0) {
+    return Math.min(retryAfter * 1000, MAX_RETRY_DELAY_MS);
+  }
+  
+  // Full jitter, so several bots backing off from the same outage don't retry in lockstep
+  return Math.random() * RETRY_BASE_DELAY_MS * 2 ** attempt;
+};
+
+// Check that a response is a JSON object
+const expectRecord = (body: unknown, context: string): Record<string, unknown> => {
+  if (!isRecord(body)) {
+    throw new GibworkServiceError(`Unexpected response from Gib.work ${context}: not an object`);
+  }
+  return body;
+};
+
+// Check that a response field is a non-empty string
+const expectString = (body: Record<string, unknown>, field: string, context: string): string => {
+  const value = body[field];
+  if (typeof value !== 'string' || !value) {
+    throw new GibworkServiceError(`Unexpected response from Gib.work ${context}: missing \`${field}\``);
+  }
+  return value;
+};
+
+// Validate a response that carries a transaction for us to sign
+const parseTransactionResponse = (response: unknown, context: string): BountyResponse => {
+  const body = expectRecord(response, context);
+  return {
+    taskId: expectString(body, 'taskId', context),
+    serializedTransaction: expectString(body, 'serializedTransaction', context)
+  };
+};
+
+// Validate a task lookup response
+const parseTask = (response: unknown, context: string): GibworkTask => {
+  const body = expectRecord(response, context);
+  return {
+    id: expectString(body, 'id', context),
+    title: typeof body.title === 'string' ? body.title : undefined,
+    status: typeof body.status === 'string' ? body.status : undefined
+  };
+};
+
+// Create a client for the Gib.work API at the given base URL
+export const createGibworkClient = (
+  baseUrl: string,
+  { timeoutMs = GIBWORK_TIMEOUT_MS, maxRetries = GIBWORK_MAX_RETRIES } = {}
+): GibworkClient => {
+  // Call an endpoint, retrying service errors. POSTs carry an idempotency key that stays the
+  // same across retries, so a retry after a lost response never creates a second task.
+  const request = async (
+    method: 'GET' | 'POST',
+    path: string,
+    context: string,
+    body?: unknown,
+    idempotencyKey?: string
+  ): Promise<unknown> => {
+    const headers: Record<string, string> = { 'accept': 'application/json' };
+    if (body !== undefined) {
+      headers['content-type'] = 'application/json';
+    }
+    if (method === 'POST') {
+      headers['idempotency-key'] = idempotencyKey || crypto.randomUUID();
+    }
+  
+    for (let attempt = 0; ; attempt++) {
+      let response: Response | undefined;
+      let error: GibworkError;
+  
+      try {
+        response = await fetch(`${baseUrl}${path}`, {
+          method,
+          headers,
+          body: body === undefined ? undefined : JSON.stringify(body),
+          timeout: timeoutMs
+        });
+  
+        const text = await response.text();
+        if (response.ok) {
+          try {
+            return JSON.parse(text) as unknown;
+          } catch (parseError) {
+            throw new GibworkServiceError(`Unexpected response from Gib.work ${context}: not JSON`, response.status, text);
+          }
+        }
+  
+        const message = `Gib.work ${context} failed: ${describeErrorBody(text) || response.statusText} (HTTP ${response.status})`;
+        if (response.status < 500 && response.status !== 408 && response.status !== 429) {
+          throw new GibworkUserError(message, response.status, text);
+        }
+        error = new GibworkServiceError(message, response.status, text);
+      } catch (requestError) {
+        if (requestError instanceof GibworkUserError) {
+          throw requestError;
+        }
+        error = requestError instanceof GibworkServiceError ?
+          requestError :
+          new GibworkServiceError(`Gib.work ${context} failed: ${(requestError as Error).message}`);
+      }
+  
+      if (attempt >= maxRetries) {
+        throw error;
+      }
+  
+      const delay = getRetryDelay(attempt, response);
+      logger.warn(`${error.message}; retrying in ${Math.round(delay)}ms (attempt ${attempt + 1} of ${maxRetries})`);
+      await sleep(delay);
+    }
+  };
+  
+  return {
+    baseUrl,
+  
+    createTaskTransaction: async (payload: BountyRequestPayload, idempotencyKey: string) =>
+      parseTransactionResponse(
+        await request('POST', '/tasks/public/transaction', 'task creation', payload, idempotencyKey),
+        'task creation'
+      ),
+  
+    getTask: async (taskId: string) =>
+      parseTask(await request('GET', `/tasks/${encodeURIComponent(taskId)}`, `lookup of task ${taskId}`), `lookup of task ${taskId}`),
+  
+    createCancelTransaction: async (taskId: string, payer: string, idempotencyKey?: string) =>
+      parseTransactionResponse(
+        await request(
+          'POST',
+          `/tasks/public/${encodeURIComponent(taskId)}/cancel`,
+          `cancellation of task ${taskId}`,
+          { payer },
+          idempotencyKey
+        ),
+        `cancellation of task ${taskId}`
+      ),
+    
+    // Any answer short of a server error means the API is up
+    ping: async () => {
+      try {
+        await request('GET', '/', 'health check');
+      } catch (error) {
+        if (!(error instanceof GibworkUserError)) {
+          throw error;
+        }
+      }
+    }
+  };
+};
+
+// The client for the configured Gib.work API
+export const gibwork = createGibworkClient(GIBWORK_API_URL);
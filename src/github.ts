@@ -1,43 +1,129 @@
 import { Octokit } from '@octokit/rest';
-import { BountyCommand, GitHubComment, GitHubIssue, GitHubRepository } from './types';
-import { GITHUB_TOKEN, isAuthorized } from './config';
+import { throttling } from '@octokit/plugin-throttling';
+import { retry } from '@octokit/plugin-retry';
+import {
+  GitHubComment,
+  GitHubIssue,
+  GitHubIssueEvent,
+  GitHubPullRequest,
+  GitHubRateLimit,
+  GitHubRepository,
+  GitHubTimelineEvent,
+  LabelEvent
+} from './types';
+import { DRY_RUN, DRY_RUN_COMMENTS, GITHUB_API_URL, GITHUB_MAX_RETRIES, GITHUB_TOKEN } from './config';
+import { logger } from './logger';
 
-const octokit = new Octokit({
-  auth: GITHUB_TOKEN
-});
+// Octokit that queues requests to stay within GitHub's rate limits and retries server errors
+const ThrottledOctokit = Octokit.plugin(throttling, retry);
 
-// Parse a comment for bounty commands
-export const parseBountyCommand = (comment: GitHubComment): BountyCommand | null => {
-  const regex = /\/bounty\s+(\d+(?:\.\d+)?)\s+([\w\d]{32,44})/i;
-  const match = comment.body.match(regex);
-  
-  if (match && isAuthorized(comment.user.login)) {
-    return {
-      amount: parseFloat(match[1]),
-      tokenAddress: match[2],
-      issueUrl: comment.issue_url
-    };
+// The HTTP status of a failed request, if GitHub answered it
+const getErrorStatus = (error: unknown): number | undefined => (error as { status?: number }).status;
+
+// Decide whether to retry a request GitHub rate limited, after the wait it asked for
+const onLimit = (kind: string) => (retryAfter?: number, options?: object): boolean => {
+  const { method, url, request } = options as { method: string; url: string; request: { retryCount: number } };
+  if (request.retryCount >= GITHUB_MAX_RETRIES) {
+    logger.error(`GitHub ${kind} hit for ${method} ${url}; giving up after ${request.retryCount} retries`);
+    return false;
   }
   
-  return null;
+  logger.warn(`GitHub ${kind} hit for ${method} ${url}; retrying in ${retryAfter}s`);
+  return true;
 };
 
-// Get recent comments from a repository
-export const getRecentComments = async (owner: string, repo: string): Promise<GitHubComment[]> => {
-  try {
-    const { data } = await octokit.issues.listCommentsForRepo({
-      owner,
-      repo,
-      sort: 'created',
-      direction: 'desc',
-      per_page: 100 // Adjust as needed
-    });
+const octokit = new ThrottledOctokit({
+  auth: GITHUB_TOKEN,
+  baseUrl: GITHUB_API_URL,
+  throttle: {
+    onRateLimit: onLimit('rate limit'),
+    onSecondaryRateLimit: onLimit('secondary rate limit')
+  },
+  retry: {
+    retries: GITHUB_MAX_RETRIES
+  }
+});
+
+// Rate limit GitHub reported on the latest response
+let rateLimit: GitHubRateLimit | null = null;
+
+octokit.hook.after('request', response => {
+  const { headers } = response;
+  if (headers['x-ratelimit-remaining'] === undefined) {
+    return;
+  }
+  
+  rateLimit = {
+    limit: Number(headers['x-ratelimit-limit']),
+    remaining: Number(headers['x-ratelimit-remaining']),
+    resetAt: new Date(Number(headers['x-ratelimit-reset']) * 1000).toISOString()
+  };
+  if (rateLimit.remaining < rateLimit.limit * 0.1) {
+    logger.warn(`GitHub rate limit low: ${rateLimit.remaining} of ${rateLimit.limit} requests left until ${rateLimit.resetAt}`);
+  }
+});
+
+// Get the GitHub rate limit as of the latest response
+export const getRateLimit = (): GitHubRateLimit | null => rateLimit;
+
+// Comments updated since a cursor, plus the ETag to use for the next conditional request
+export interface CommentPage {
+  comments: GitHubComment[];
+  etag?: string;
+  notModified: boolean;
+}
+
+const COMMENTS_PER_PAGE = 100;
+
+// Get all comments in a repository updated at or after `since`, oldest update first.
+// When an ETag is given, the first page is requested conditionally; a 304 costs no rate limit.
+export const getCommentsSince = async (
+  owner: string,
+  repo: string,
+  since: string,
+  etag?: string
+): Promise<CommentPage> => {
+  const comments: GitHubComment[] = [];
+  let firstPageEtag: string | undefined;
+  
+  for (let page = 1; ; page++) {
+    let response;
+    try {
+      response = await octokit.issues.listCommentsForRepo({
+        owner,
+        repo,
+        sort: 'updated',
+        direction: 'asc',
+        since,
+        per_page: COMMENTS_PER_PAGE,
+        page,
+        headers: page === 1 && etag ? { 'if-none-match': etag } : {}
+      });
+    } catch (error) {
+      if (page === 1 && getErrorStatus(error) === 304) {
+        return { comments: [], etag, notModified: true };
+      }
+      throw error;
+    }
     
-    return data as GitHubComment[];
-  } catch (error) {
-    console.error(`Error getting comments for ${owner}/${repo}:`, error);
-    return [];
+    if (page === 1) {
+      firstPageEtag = response.headers.etag;
+    }
+    
+    comments.push(...(response.data as GitHubComment[]));
+    
+    if (response.data.length < COMMENTS_PER_PAGE) {
+      break;
+    }
   }
+  
+  // A first-page ETag only reflects everything when there was a single page;
+  // with more pages, new comments could land on a later page unnoticed
+  return {
+    comments,
+    etag: comments.length < COMMENTS_PER_PAGE ? firstPageEtag : undefined,
+    notModified: false
+  };
 };
 
 // Get issue details from issue URL
@@ -46,25 +132,354 @@ export const getIssueFromUrl = async (issueUrl: string): Promise<GitHubIssue> =>
   return data as GitHubIssue;
 };
 
+// Get pull request details from pull request URL
+export const getPullRequestFromUrl = async (pullRequestUrl: string): Promise<GitHubPullRequest> => {
+  const { data } = await octokit.request(`GET ${pullRequestUrl}`);
+  return data as GitHubPullRequest;
+};
+
+// Get every timeline event of an issue
+export const getIssueTimeline = async (owner: string, repo: string, issueNumber: number): Promise<GitHubTimelineEvent[]> => {
+  const events = await octokit.paginate(octokit.issues.listEventsForTimeline, {
+    owner,
+    repo,
+    issue_number: issueNumber,
+    per_page: 100
+  });
+  return events as GitHubTimelineEvent[];
+};
+
+// Get a single issue comment
+export const getComment = async (owner: string, repo: string, commentId: number): Promise<GitHubComment> => {
+  const { data } = await octokit.issues.getComment({ owner, repo, comment_id: commentId });
+  return data as GitHubComment;
+};
+
+// Find a comment by ID in one of the given repositories, since the API needs the repository to look it up
+export const findComment = async (repositories: string[], commentId: number): Promise<GitHubComment | null> => {
+  for (const repository of repositories) {
+    const { owner, repo } = parseRepoFullName(repository);
+    try {
+      return await getComment(owner, repo, commentId);
+    } catch (error) {
+      if (getErrorStatus(error) !== 404) {
+        throw error;
+      }
+    }
+  }
+  return null;
+};
+
+// Check that the GitHub API is reachable and the token works; this costs no rate limit
+export const pingGitHub = async (): Promise<void> => {
+  await octokit.rateLimit.get();
+};
+
+// Get every comment on an issue, oldest first
+export const getIssueComments = async (owner: string, repo: string, issueNumber: number): Promise<GitHubComment[]> => {
+  const comments = await octokit.paginate(octokit.issues.listComments, {
+    owner,
+    repo,
+    issue_number: issueNumber,
+    per_page: 100
+  });
+  return comments as GitHubComment[];
+};
+
+// Get the full names of the repositories matching a search, e.g. "user:acme topic:bounties archived:false"
+export const searchRepositories = async (query: string): Promise<string[]> => {
+  const repositories = await octokit.paginate(octokit.search.repos, { q: query, per_page: 100 });
+  return repositories.map(repository => repository.full_name);
+};
+
+// Turn an issue event into a label event, if it is one
+const toLabelEvent = (event: GitHubIssueEvent, issueUrl: string): LabelEvent | null =>
+  (event.event === 'labeled' || event.event === 'unlabeled') && event.label && event.actor ? {
+    id: event.id,
+    action: event.event,
+    label: event.label.name,
+    actor: event.actor.login,
+    issueUrl,
+    createdAt: event.created_at
+  } : null;
+
+// Label events in a repository after a cursor, plus the ETag to use for the next conditional request
+export interface LabelEventPage {
+  events: LabelEvent[];
+  newestId: number;
+  etag?: string;
+  notModified: boolean;
+}
+
+const EVENTS_PER_PAGE = 100;
+
+// Get the label events in a repository newer than an event ID, oldest first. Without an ID,
+// only the newest event ID is looked up, so a repository's history is never acted on.
+export const getLabelEventsSince = async (
+  owner: string,
+  repo: string,
+  afterId?: number,
+  etag?: string
+): Promise<LabelEventPage> => {
+  const events: GitHubIssueEvent[] = [];
+  let firstPageEtag: string | undefined;
+  
+  // Repository events come newest first, so page back until we reach the cursor
+  for (let page = 1; ; page++) {
+    let response;
+    try {
+      response = await octokit.issues.listEventsForRepo({
+        owner,
+        repo,
+        per_page: afterId === undefined ? 1 : EVENTS_PER_PAGE,
+        page,
+        headers: page === 1 && etag ? { 'if-none-match': etag } : {}
+      });
+    } catch (error) {
+      if (page === 1 && getErrorStatus(error) === 304) {
+        return { events: [], newestId: afterId ?? 0, etag, notModified: true };
+      }
+      throw error;
+    }
+    
+    if (page === 1) {
+      firstPageEtag = response.headers.etag;
+    }
+    
+    const data = response.data as unknown as GitHubIssueEvent[];
+    events.push(...data);
+    
+    if (afterId === undefined || data.length < EVENTS_PER_PAGE || data.some(event => event.id <= afterId)) {
+      break;
+    }
+  }
+  
+  const newEvents = events
+    .filter(event => afterId !== undefined && event.id > afterId)
+    .sort((a, b) => a.id - b.id);
+  
+  return {
+    events: newEvents
+      .map(event => event.issue && toLabelEvent(event, event.issue.url))
+      .filter((event): event is LabelEvent => Boolean(event)),
+    newestId: Math.max(afterId ?? 0, ...events.map(event => event.id)),
+    etag: newEvents.length < EVENTS_PER_PAGE ? firstPageEtag : undefined,
+    notModified: false
+  };
+};
+
+// Find the newest event adding or removing a label on an issue. Webhooks don't carry the
+// event's ID, which serves as the command ID of a label-triggered bounty.
+export const findLabelEvent = async (
+  issueUrl: string,
+  action: LabelEvent['action'],
+  label: string
+): Promise<LabelEvent | null> => {
+  const { owner, repo, issueNumber } = getIssueInfoFromUrl(issueUrl);
+  const events = await octokit.paginate(octokit.issues.listEvents, {
+    owner,
+    repo,
+    issue_number: issueNumber,
+    per_page: EVENTS_PER_PAGE
+  });
+  
+  return (events as unknown as GitHubIssueEvent[])
+    .map(event => toLabelEvent(event, issueUrl))
+    .filter((event): event is LabelEvent => event !== null && event.action === action && event.label === label)
+    .sort((a, b) => b.id - a.id)[0] || null;
+};
+
+// Reactions the bot can leave on a comment or issue
+export type ReactionContent = '+1' | '-1' | 'laugh' | 'confused' | 'heart' | 'hooray' | 'rocket' | 'eyes';
+
+// Leave a reaction on a comment, or on the issue itself when the comment is its body, removing
+// the bot's earlier reactions from `replaces`
+export const setReaction = async (
+  issueUrl: string,
+  target: { commentId: number } | { issue: true },
+  content: ReactionContent,
+  replaces: ReactionContent[]
+): Promise<void> => {
+  const { owner, repo, issueNumber } = getIssueInfoFromUrl(issueUrl);
+  
+  if (DRY_RUN && DRY_RUN_COMMENTS === 'log') {
+    logger.info(`[DRY RUN] Reaction ${content} on ${owner}/${repo}#${issueNumber}`);
+    return;
+  }
+  
+  const botLogin = await getBotLogin();
+  const existing = 'commentId' in target ?
+    await octokit.paginate(octokit.reactions.listForIssueComment, { owner, repo, comment_id: target.commentId, per_page: 100 }) :
+    await octokit.paginate(octokit.reactions.listForIssue, { owner, repo, issue_number: issueNumber, per_page: 100 });
+  const ours = existing.filter(reaction => reaction.user?.login === botLogin);
+  
+  for (const reaction of ours) {
+    if (reaction.content !== content && replaces.includes(reaction.content as ReactionContent)) {
+      if ('commentId' in target) {
+        await octokit.reactions.deleteForIssueComment({ owner, repo, comment_id: target.commentId, reaction_id: reaction.id });
+      } else {
+        await octokit.reactions.deleteForIssue({ owner, repo, issue_number: issueNumber, reaction_id: reaction.id });
+      }
+    }
+  }
+  
+  if (ours.some(reaction => reaction.content === content)) {
+    return;
+  }
+  if ('commentId' in target) {
+    await octokit.reactions.createForIssueComment({ owner, repo, comment_id: target.commentId, content });
+  } else {
+    await octokit.reactions.createForIssue({ owner, repo, issue_number: issueNumber, content });
+  }
+};
+
+// Add a label to an issue; GitHub creates the label if the repository doesn't have it yet.
+// Dry runs only log it, since their bounties are never funded.
+export const addIssueLabel = async (issueUrl: string, label: string): Promise<void> => {
+  const { owner, repo, issueNumber } = getIssueInfoFromUrl(issueUrl);
+  if (DRY_RUN) {
+    logger.info(`[DRY RUN] Label ${label} added to ${owner}/${repo}#${issueNumber}`);
+    return;
+  }
+  
+  await octokit.issues.addLabels({ owner, repo, issue_number: issueNumber, labels: [label] });
+};
+
+// Remove a label from an issue, if it has it
+export const removeIssueLabel = async (issueUrl: string, label: string): Promise<void> => {
+  const { owner, repo, issueNumber } = getIssueInfoFromUrl(issueUrl);
+  if (DRY_RUN) {
+    logger.info(`[DRY RUN] Label ${label} removed from ${owner}/${repo}#${issueNumber}`);
+    return;
+  }
+  
+  try {
+    await octokit.issues.removeLabel({ owner, repo, issue_number: issueNumber, name: label });
+  } catch (error) {
+    if (getErrorStatus(error) !== 404) {
+      throw error;
+    }
+  }
+};
+
+// Where repositories usually keep their contributing guide
+const CONTRIBUTING_PATHS = ['CONTRIBUTING.md', '.github/CONTRIBUTING.md', 'docs/CONTRIBUTING.md'];
+
+// Get the web URL of a repository's contributing guide, if it has one
+export const getContributingGuideUrl = async (owner: string, repo: string): Promise<string | null> => {
+  for (const path of CONTRIBUTING_PATHS) {
+    try {
+      const { data } = await octokit.repos.getContent({ owner, repo, path });
+      if (!Array.isArray(data) && data.html_url) {
+        return data.html_url;
+      }
+    } catch (error) {
+      if (getErrorStatus(error) !== 404) {
+        throw error;
+      }
+    }
+  }
+  return null;
+};
+
 // Get repository details from repository URL
 export const getRepositoryFromUrl = async (repoUrl: string): Promise<GitHubRepository> => {
   const { data } = await octokit.request(`GET ${repoUrl}`);
   return data as GitHubRepository;
 };
 
-// Post a comment on an issue
+// Login of the account the bot comments as, looked up once
+let botLogin: string | null = null;
+
+// Get the login of the authenticated account, so the bot can ignore its own comments
+export const getBotLogin = async (): Promise<string> => {
+  if (!botLogin) {
+    const { data } = await octokit.users.getAuthenticated();
+    botLogin = data.login;
+  }
+  return botLogin;
+};
+
+// Get a user's permission level on a repository (admin, maintain, write, triage, read or none)
+export const getUserPermission = async (owner: string, repo: string, username: string): Promise<string> => {
+  try {
+    const { data } = await octokit.repos.getCollaboratorPermissionLevel({ owner, repo, username });
+    // role_name distinguishes maintain and triage, which permission folds into write and read
+    return data.role_name || data.permission;
+  } catch (error) {
+    if (getErrorStatus(error) === 404) {
+      return 'none';
+    }
+    throw error;
+  }
+};
+
+// Check if a user is an active member of an organization team
+export const isTeamMember = async (org: string, teamSlug: string, username: string): Promise<boolean> => {
+  try {
+    const { data } = await octokit.teams.getMembershipForUserInOrg({ org, team_slug: teamSlug, username });
+    return data.state === 'active';
+  } catch (error) {
+    if (getErrorStatus(error) === 404) {
+      return false;
+    }
+    throw error;
+  }
+};
+
+// Post a comment on an issue, returning it (or null when a dry run only logs it)
 export const commentOnIssue = async (
   owner: string,
   repo: string,
   issueNumber: number,
   body: string
-): Promise<void> => {
-  await octokit.issues.createComment({
+): Promise<GitHubComment | null> => {
+  if (DRY_RUN) {
+    body = `🧪 **DRY RUN**: no transaction was broadcast.\n\n${body}`;
+    
+    if (DRY_RUN_COMMENTS === 'log') {
+      logger.info(`[DRY RUN] Comment on ${owner}/${repo}#${issueNumber}:\n${body}`);
+      return null;
+    }
+  }
+  
+  const { data } = await octokit.issues.createComment({
     owner,
     repo,
     issue_number: issueNumber,
     body
   });
+  return data as GitHubComment;
+};
+
+// Replace the body of a comment the bot posted earlier
+export const updateComment = async (
+  owner: string,
+  repo: string,
+  commentId: number,
+  body: string
+): Promise<void> => {
+  if (DRY_RUN) {
+    body = `🧪 **DRY RUN**: no transaction was broadcast.\n\n${body}`;
+    
+    if (DRY_RUN_COMMENTS === 'log') {
+      logger.info(`[DRY RUN] Update of comment ${commentId} on ${owner}/${repo}:\n${body}`);
+      return;
+    }
+  }
+  
+  await octokit.issues.updateComment({
+    owner,
+    repo,
+    comment_id: commentId,
+    body
+  });
+};
+
+// Post a comment on an issue identified by its API URL
+export const commentOnIssueUrl = async (issueUrl: string, body: string): Promise<GitHubComment | null> => {
+  const { owner, repo, issueNumber } = getIssueInfoFromUrl(issueUrl);
+  return commentOnIssue(owner, repo, issueNumber, body);
 };
 
 // Extract owner and repo from a repository full name
@@ -82,4 +497,23 @@ export const getRepoInfoFromUrl = (repoUrl: string): { owner: string, repo: stri
     owner: urlParts[ownerIndex],
     repo: urlParts[ownerIndex + 1]
   };
+};
+
+// Turn an issue's web URL, as pasted by an operator, into the API URL the bot keys issues by
+export const toIssueApiUrl = (url: string): string => {
+  const match = url.match(/([\w.-]+)\/([\w.-]+)\/issues\/(\d+)\/?$/);
+  if (!match) {
+    throw new Error(`'${url}' is not a GitHub issue URL`);
+  }
+  
+  const [, owner, repo, issueNumber] = match;
+  return `${GITHUB_API_URL}/repos/${owner}/${repo}/issues/${issueNumber}`;
+};
+
+// Extract owner, repo and issue number from an issue API URL
+export const getIssueInfoFromUrl = (issueUrl: string): { owner: string, repo: string, issueNumber: number } => {
+  // Assuming URL format like https://api.github.com/repos/owner/repo/issues/123
+  const { owner, repo } = getRepoInfoFromUrl(issueUrl);
+  const issueNumber = parseInt(issueUrl.split('/').pop() || '', 10);
+  return { owner, repo, issueNumber };
 };
\ No newline at end of file
@@ -0,0 +1,85 @@
+import { BountyStatus, CommandRecord, CommandSource, CommandStatus, ExistingBounty } from './types';
+import { getBotLogin, getIssueComments, getIssueInfoFromUrl } from './github';
+import { commandKey, getBountyRecord, getBountyRecordsForIssue, listEntries } from './store';
+
+// Bounties that still hold escrow for their issue
+const ACTIVE_STATUSES: BountyStatus[] = ['open', 'claimed', 'pr_linked', 'expired'];
+
+// Commands that may still end up funding a bounty
+const IN_PROGRESS_STATUSES: CommandStatus[] = ['processing', 'pending_approval', 'submitted'];
+
+const MARKER_PATTERN = /<!-- gibwork-bot:(bounty|closed) task=([\w-]+) -->/g;
+
+// Hidden marker for the bot's comment announcing a funded bounty, so the bounty
+// can still be found on the issue if the state file is lost
+export const bountyMarker = (taskId: string): string => `<!-- gibwork-bot:bounty task=${taskId} -->`;
+
+// Hidden marker for the bot's comment announcing that a bounty was cancelled
+export const closedMarker = (taskId: string): string => `<!-- gibwork-bot:closed task=${taskId} -->`;
+
+// Find a bounty funded by the bot's earlier comments on an issue that was not cancelled since
+const findMarkedBounty = async (issueUrl: string): Promise<string | null> => {
+  const { owner, repo, issueNumber } = getIssueInfoFromUrl(issueUrl);
+  const botLogin = await getBotLogin();
+  const marked = new Set<string>();
+  
+  for (const comment of await getIssueComments(owner, repo, issueNumber)) {
+    if (comment.user.login !== botLogin || !comment.body) {
+      continue;
+    }
+  
+    for (const [, type, taskId] of comment.body.matchAll(MARKER_PATTERN)) {
+      if (type === 'bounty') {
+        marked.add(taskId);
+      } else {
+        marked.delete(taskId);
+      }
+    }
+  }
+  
+  // Our own records win over markers, e.g. for bounties that completed
+  const active = [...marked].filter(taskId => {
+    const record = getBountyRecord(taskId);
+    return !record || ACTIVE_STATUSES.includes(record.status);
+  });
+  return active[0] || null;
+};
+
+// Find a funded bounty that a new `/bounty` on an issue would duplicate. Top-ups are
+// not checked; they are meant to add to the existing bounty.
+export const findExistingBounty = async (issueUrl: string): Promise<ExistingBounty | null> => {
+  const bounty = getBountyRecordsForIssue(issueUrl)
+    .find(record => !record.parentTaskId && ACTIVE_STATUSES.includes(record.status));
+  if (bounty) {
+    return { source: 'record', taskId: bounty.taskId, commentId: bounty.commentId, status: bounty.status };
+  }
+  
+  const taskId = await findMarkedBounty(issueUrl);
+  return taskId ? { source: 'marker', taskId } : null;
+};
+
+// Find another create command on an issue that may still fund a bounty. This is synchronous so
+// the caller can record its own command right after, before another command gets the same answer.
+export const findCommandInProgress = (issueUrl: string, source: CommandSource): ExistingBounty | null => {
+  const command = listEntries<CommandRecord>('command').find(record =>
+    record.issueUrl === issueUrl &&
+    commandKey(record) !== commandKey(source) &&
+    IN_PROGRESS_STATUSES.includes(record.status)
+  );
+  return command ? { source: 'in_progress', taskId: command.taskId, commentId: command.commentId, status: command.status } : null;
+};
+
+// Explain to the requester why their `/bounty` was not funded
+export const formatDuplicateReply = (existing: ExistingBounty): string => {
+  const link = existing.taskId ? `[View on Gib.work](https://app.gib.work/tasks/${existing.taskId})` : '';
+  
+  if (existing.source === 'in_progress') {
+    return `⚠️ Another bounty command on this issue is still ${existing.status?.replace('_', ' ')}, so this one was not funded.` +
+           (link ? `\n\n- Bounty: ${link}` : '') +
+           `\n\nOnce it is funded, use \`/bounty topup <amount>\` to add to it.`;
+  }
+  
+  return `⚠️ This issue already has an active bounty, so this one was not funded.\n\n` +
+         `- Bounty: ${link}\n\n` +
+         `Use \`/bounty topup <amount>\` to add to it, or \`/bounty cancel\` to cancel it first.`;
+};
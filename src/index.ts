@@ -1,80 +1,83 @@
 import cron from 'node-cron';
-import { REPOSITORIES } from './config';
-import { getRecentComments, parseBountyCommand, parseRepoFullName } from './github';
-import { processBountyCommand } from './bounty';
-
-// Store processed comment IDs to avoid duplicates
-const processedComments = new Set<number>();
-
-// Check for bounty commands in comments
-const checkForBountyCommands = async () => {
-  for (const repoFullName of REPOSITORIES) {
-    try {
-      const { owner, repo } = parseRepoFullName(repoFullName);
-      console.log(`Checking for bounty commands in ${owner}/${repo}...`);
-      
-      const comments = await getRecentComments(owner, repo);
-      console.log(`Found ${comments.length} recent comments`);
-      
-      for (const comment of comments) {
-        // Skip already processed comments
-        if (processedComments.has(comment.id)) {
-          continue;
-        }
-        
-        // Mark as processed
-        processedComments.add(comment.id);
-        
-        // Parse for bounty command
-        const bountyCommand = parseBountyCommand(comment);
-        
-        if (bountyCommand) {
-          console.log(`Found bounty command from ${comment.user.login}: ${bountyCommand.amount} tokens on issue ${bountyCommand.issueUrl}`);
-          await processBountyCommand(bountyCommand);
-        }
-      }
-    } catch (error) {
-      console.error(`Error checking repo ${repoFullName}:`, error);
-    }
+import { ADMIN_API_TOKEN, BALANCE_CHECK_CRON, BOT_MODE, REPO_DISCOVERY_CRON, validateConfig } from './config';
+import { checkForBountyCommands } from './poller';
+import { checkBountyLifecycles } from './lifecycle';
+import { checkLowBalances } from './balances';
+import { expireApprovalRequests } from './approvals';
+import { cleanupProcessedComments } from './processor';
+import { startServer } from './server';
+import { initSigner } from './signer';
+import { checkPendingTransactions } from './tracker';
+import { initSettings, refreshRepositories, watchSettings } from './settings';
+import { acquireStateLock } from './store';
+import { logger } from './logger';
+
+// Start the bot once the signer is ready, since every bounty needs it
+const start = async () => {
+  // Check the environment and the config file before touching the state file or the wallet
+  validateConfig();
+  initSettings();
+
+  // Only one process may write the state file; the CLI's create and replay refuse to run alongside the bot
+  acquireStateLock('the bot');
+  await initSigner();
+
+  logger.info(`Starting GitHub Bounty Bot in ${BOT_MODE} mode...`);
+
+  // Pick up changes to the config file without a restart
+  watchSettings();
+
+  // Resolve org-wide and topic repository patterns before the first event comes in, then keep them current
+  await refreshRepositories();
+  cron.schedule(REPO_DISCOVERY_CRON, refreshRepositories);
+
+  // GitHub pushes issue and comment events to us in webhook mode; the admin API shares the server
+  if (BOT_MODE === 'webhook' || ADMIN_API_TOKEN) {
+    startServer();
   }
-};
 
-// Clean up old processed comments to prevent memory leaks
-// Only keep comments from the last 24 hours
-const cleanupProcessedComments = () => {
-  const oneDayAgo = new Date();
-  oneDayAgo.setDate(oneDayAgo.getDate() - 1);
-  
-  console.log(`Cleaning up processed comments older than ${oneDayAgo.toISOString()}`);
-  const initialSize = processedComments.size;
-  
-  // This would require storing timestamps with the comment IDs
-  // For a production bot, consider using a database to store processed comments
-  // For this example, we're just acknowledging the need for cleanup
-  
-  console.log(`Memory cleanup complete. Kept ${processedComments.size} of ${initialSize} processed comments.`);
-};
+  if (BOT_MODE === 'polling') {
+    // Start the scheduled task (every 30 seconds)
+    cron.schedule('*/30 * * * * *', async () => {
+      logger.info(`[${new Date().toISOString()}] Checking for new bounty commands...`);
+      await checkForBountyCommands();
+    });
 
-// Start the scheduled task (every 30 seconds)
-cron.schedule('*/30 * * * * *', async () => {
-  console.log(`[${new Date().toISOString()}] Checking for new bounty commands...`);
-  await checkForBountyCommands();
-});
+    // Initial check on startup
+    checkForBountyCommands();
+  }
+
+  // Follow sent transactions until they confirm, fail or expire (every 5 seconds),
+  // picking up any that were still pending when the bot last stopped
+  cron.schedule('*/5 * * * * *', checkPendingTransactions);
+  checkPendingTransactions();
+
+  // Follow funded bounties through claims, pull requests and merges (every 5 minutes)
+  cron.schedule('*/5 * * * *', checkBountyLifecycles);
+
+  // Expire approval requests nobody decided on (every 10 minutes)
+  cron.schedule('*/10 * * * *', expireApprovalRequests);
 
-// Clean up old processed comments once per day
-cron.schedule('0 0 * * *', cleanupProcessedComments);
+  // Warn when the wallet runs low on funds
+  cron.schedule(BALANCE_CHECK_CRON, checkLowBalances);
+  checkLowBalances();
 
-// Initial check on startup
-console.log('Starting GitHub Bounty Bot...');
-checkForBountyCommands();
+  // Clean up old processed comments once per day
+  cron.schedule('0 0 * * *', cleanupProcessedComments);
+};
+
+start().catch(error => {
+  logger.error('Failed to start GitHub Bounty Bot', { error });
+  process.exit(1);
+});
 
 // Handle process termination
 process.on('SIGINT', () => {
-  console.log('Shutting down GitHub Bounty Bot...');
+  logger.info('Shutting down GitHub Bounty Bot...');
   process.exit(0);
 });
 
 process.on('SIGTERM', () => {
-  console.log('Shutting down GitHub Bounty Bot...');
+  logger.info('Shutting down GitHub Bounty Bot...');
   process.exit(0);
-});
\ No newline at end of file
+});
@@ -0,0 +1,56 @@
+import { BountyStatus, CommandRef } from './types';
+import { addIssueLabel, ReactionContent, removeIssueLabel, setReaction } from './github';
+import { getBountyRecordsForIssue } from './store';
+import { logger } from './logger';
+
+// Label on issues with a bounty whose funds are in escrow
+export const FUNDED_LABEL = 'bounty-funded';
+
+// Bounties whose funds are in escrow
+const FUNDED_STATUSES: BountyStatus[] = ['open', 'claimed', 'pr_linked', 'expired'];
+
+// How far a bounty command got
+export type CommandState = 'working' | 'funded' | 'failed' | 'rejected';
+
+// Reaction the bot leaves on a command for each state
+const STATE_REACTIONS: Record<CommandState, ReactionContent> = {
+  working: 'eyes',
+  funded: 'rocket',
+  failed: 'confused',
+  rejected: '-1'
+};
+
+// Show how far a command got with a reaction on its comment, replacing the reaction of its
+// previous state. Commands from labels and the CLI have no comment to react to.
+export const showCommandState = async (command: CommandRef, state: CommandState): Promise<void> => {
+  if (command.origin === 'label' || command.origin === 'cli') {
+    return;
+  }
+  
+  try {
+    await setReaction(
+      command.issueUrl,
+      command.origin === 'issue' ? { issue: true } : { commentId: command.commentId },
+      STATE_REACTIONS[state],
+      Object.values(STATE_REACTIONS)
+    );
+  } catch (error) {
+    // Reactions are a courtesy; failing to leave one must never fail the command
+    logger.warn(`Could not react to bounty command ${command.commentId}`, { error });
+  }
+};
+
+// Add or remove the funded label so it matches whether the issue has funds in escrow
+export const updateFundedLabel = async (issueUrl: string): Promise<void> => {
+  const funded = getBountyRecordsForIssue(issueUrl).some(bounty => FUNDED_STATUSES.includes(bounty.status));
+  
+  try {
+    if (funded) {
+      await addIssueLabel(issueUrl, FUNDED_LABEL);
+    } else {
+      await removeIssueLabel(issueUrl, FUNDED_LABEL);
+    }
+  } catch (error) {
+    logger.warn(`Could not update the ${FUNDED_LABEL} label on ${issueUrl}`, { error });
+  }
+};
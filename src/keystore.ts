@@ -0,0 +1,76 @@
+import crypto from 'crypto';
+
+// An encrypted Solana secret key: scrypt derives an AES-256-GCM key from the passphrase
+export interface Keystore {
+  version: 1;
+  publicKey: string;
+  kdf: {
+    name: 'scrypt';
+    salt: string;
+    N: number;
+    r: number;
+    p: number;
+  };
+  cipher: {
+    name: 'aes-256-gcm';
+    iv: string;
+    tag: string;
+  };
+  ciphertext: string;
+}
+
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+
+// scrypt needs 128 * N * r bytes, which is above Node's default limit for these parameters
+const SCRYPT_MAXMEM = 64 * 1024 * 1024;
+
+const deriveKey = (passphrase: string, kdf: Keystore['kdf']): Buffer =>
+  crypto.scryptSync(passphrase, Buffer.from(kdf.salt, 'base64'), 32, {
+    N: kdf.N,
+    r: kdf.r,
+    p: kdf.p,
+    maxmem: SCRYPT_MAXMEM
+  });
+
+// Encrypt a 64-byte Solana secret key with a passphrase
+export const encryptKeystore = (secretKey: Uint8Array, publicKey: string, passphrase: string): Keystore => {
+  const kdf = { name: 'scrypt' as const, salt: crypto.randomBytes(16).toString('base64'), ...SCRYPT_PARAMS };
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey(passphrase, kdf), iv);
+  
+  // Bind the ciphertext to the public key, so a swapped publicKey field fails to decrypt
+  cipher.setAAD(Buffer.from(publicKey));
+  const ciphertext = Buffer.concat([cipher.update(secretKey), cipher.final()]);
+  
+  return {
+    version: 1,
+    publicKey,
+    kdf,
+    cipher: { name: 'aes-256-gcm', iv: iv.toString('base64'), tag: cipher.getAuthTag().toString('base64') },
+    ciphertext: ciphertext.toString('base64')
+  };
+};
+
+// Decrypt a keystore's secret key, failing on a wrong passphrase or tampered file
+export const decryptKeystore = (keystore: Keystore, passphrase: string): Uint8Array => {
+  if (keystore.version !== 1 || keystore.kdf.name !== 'scrypt' || keystore.cipher.name !== 'aes-256-gcm') {
+    throw new Error('Unsupported keystore format');
+  }
+  
+  const decipher = crypto.createDecipheriv(
+    'aes-256-gcm',
+    deriveKey(passphrase, keystore.kdf),
+    Buffer.from(keystore.cipher.iv, 'base64')
+  );
+  decipher.setAAD(Buffer.from(keystore.publicKey));
+  decipher.setAuthTag(Buffer.from(keystore.cipher.tag, 'base64'));
+  
+  try {
+    return new Uint8Array(Buffer.concat([
+      decipher.update(Buffer.from(keystore.ciphertext, 'base64')),
+      decipher.final()
+    ]));
+  } catch (error) {
+    throw new Error('Could not unlock keystore: wrong passphrase or corrupted file');
+  }
+};
@@ -0,0 +1,270 @@
+import { BountyRecord, BountyStatus, GitHubIssue, GitHubTimelineEvent } from './types';
+import { BOUNTY_EXPIRY_DAYS } from './config';
+import {
+  commentOnIssueUrl,
+  getIssueFromUrl,
+  getIssueInfoFromUrl,
+  getIssueTimeline,
+  getPullRequestFromUrl
+} from './github';
+import { signAndSendTransaction } from './bounty';
+import { gibwork } from './gibwork';
+import { getWalletPublicKey } from './signer';
+import { getBountyRecord, getBountyRecordsForIssue, listEntries, saveBountyRecord } from './store';
+import { hasPendingTransaction, recordSignedTransaction, trackTransaction } from './tracker';
+import { updateFundedLabel } from './indicators';
+import { logger, recordAudit, withLogContext } from './logger';
+
+// Bounties the bot still follows
+const ACTIVE_STATUSES: BountyStatus[] = ['open', 'claimed', 'pr_linked'];
+
+// Bounties that can still be cancelled for a refund
+const CANCELLABLE_STATUSES: BountyStatus[] = [...ACTIVE_STATUSES, 'expired'];
+
+// Whether the bot still follows a bounty. An expired bounty is followed until its issue closes, since a
+// pull request merged after the deadline still completes it.
+const isTracked = (bounty: BountyRecord): boolean =>
+  ACTIVE_STATUSES.includes(bounty.status) || (bounty.status === 'expired' && !bounty.closedNotified);
+
+// Order of the forward-only progression; a bounty never moves back down it
+const STATUS_ORDER: BountyStatus[] = ['open', 'claimed', 'pr_linked', 'completed'];
+
+// Describe a bounty's status for an issue comment
+const describeStatus = (bounty: BountyRecord): string => {
+  switch (bounty.status) {
+    case 'open':
+      return '🟢 Open, waiting for someone to pick it up';
+    case 'claimed':
+      return `🙋 Claimed by @${bounty.assignee}`;
+    case 'pr_linked':
+      return `🔗 Pull request linked: ${bounty.pullRequestUrl}`;
+    case 'completed':
+      return `🎉 Completed by ${bounty.pullRequestUrl}`;
+    case 'cancelled':
+      return '🛑 Cancelled';
+    case 'expired':
+      return '⌛ Expired';
+  }
+};
+
+const getBountyUrl = (taskId: string): string => `https://app.gib.work/tasks/${taskId}`;
+
+// Work out where a bounty stands from the issue and its timeline
+const deriveStatus = async (
+  issue: GitHubIssue,
+  timeline: GitHubTimelineEvent[]
+): Promise<Pick<BountyRecord, 'status' | 'assignee' | 'pullRequestUrl'>> => {
+  // Pull requests that mention the issue, including those that close it
+  const pullRequestUrls = Array.from(new Set(
+    timeline
+      .filter(event => event.event === 'cross-referenced' && event.source?.issue?.pull_request)
+      .map(event => event.source!.issue!.pull_request!.url)
+  ));
+  const pullRequests = await Promise.all(pullRequestUrls.map(getPullRequestFromUrl));
+  
+  // Only the pull request whose merge closed the issue completes it; others may just mention it
+  const closingCommit = issue.state === 'closed' ?
+    timeline.filter(event => event.event === 'closed').pop()?.commit_id :
+    undefined;
+  const closingPullRequest = closingCommit ?
+    pullRequests.find(pullRequest => pullRequest.merged && pullRequest.merge_commit_sha === closingCommit) :
+    undefined;
+  if (closingPullRequest) {
+    return { status: 'completed', pullRequestUrl: closingPullRequest.html_url };
+  }
+  
+  const mergedPullRequest = pullRequests.find(pullRequest => pullRequest.merged);
+  
+  const linkedPullRequest = mergedPullRequest || pullRequests.find(pullRequest => pullRequest.state === 'open');
+  if (linkedPullRequest) {
+    return { status: 'pr_linked', pullRequestUrl: linkedPullRequest.html_url };
+  }
+  
+  if (issue.assignees && issue.assignees.length > 0) {
+    return { status: 'claimed', assignee: issue.assignees[0].login };
+  }
+  
+  return { status: 'open' };
+};
+
+// When a bounty expires: its own deadline, else BOUNTY_EXPIRY_DAYS after creation, else never
+const getExpiryTime = (bounty: BountyRecord): number | undefined => {
+  if (bounty.deadline) {
+    return new Date(bounty.deadline).getTime();
+  }
+  
+  if (BOUNTY_EXPIRY_DAYS > 0) {
+    return new Date(bounty.createdAt).getTime() + BOUNTY_EXPIRY_DAYS * 24 * 60 * 60 * 1000;
+  }
+  
+  return undefined;
+};
+
+// Save an update to a bounty read before awaiting GitHub, unless its status changed in the
+// meantime, e.g. because its cancellation confirmed. Returns the saved record, or null if skipped.
+const saveRefreshedBounty = (bounty: BountyRecord, update: Partial<BountyRecord>): BountyRecord | null => {
+  const current = getBountyRecord(bounty.taskId);
+  if (!current || current.status !== bounty.status) {
+    logger.info(`Bounty ${bounty.taskId} changed to ${current?.status} while it was refreshed; dropping the refresh`);
+    return null;
+  }
+  
+  const updated: BountyRecord = { ...current, ...update };
+  saveBountyRecord(updated);
+  return updated;
+};
+
+// Update one bounty from its issue, posting a comment when its status changes
+const refreshBounty = async (bounty: BountyRecord) => {
+  const { owner, repo, issueNumber } = getIssueInfoFromUrl(bounty.issueUrl);
+  const issue = await getIssueFromUrl(bounty.issueUrl);
+  const timeline = await getIssueTimeline(owner, repo, issueNumber);
+  const derived = await deriveStatus(issue, timeline);
+  
+  // An expired bounty only moves on to completion
+  const advances = bounty.status === 'expired' ?
+    derived.status === 'completed' :
+    STATUS_ORDER.indexOf(derived.status) > STATUS_ORDER.indexOf(bounty.status);
+  if (advances) {
+    const updated = saveRefreshedBounty(bounty, derived);
+    if (!updated) {
+      return;
+    }
+    logger.info(`Bounty ${bounty.taskId} moved from ${bounty.status} to ${derived.status}`);
+    
+    await commentOnIssueUrl(
+      bounty.issueUrl,
+      `📋 Bounty status update\n\n` +
+      `${describeStatus(updated)}\n\n` +
+      `🔗 Bounty: [View on Gib.work](${getBountyUrl(bounty.taskId)})`
+    );
+    
+    // A completed bounty has paid out its escrow
+    if (updated.status === 'completed') {
+      await updateFundedLabel(bounty.issueUrl);
+    }
+    return;
+  }
+  
+  // Expire bounties nobody has opened a pull request for in time
+  const expiresAt = getExpiryTime(bounty);
+  if (expiresAt !== undefined && Date.now() > expiresAt && bounty.status !== 'pr_linked' && bounty.status !== 'expired') {
+    if (!saveRefreshedBounty(bounty, { status: 'expired' })) {
+      return;
+    }
+    logger.info(`Bounty ${bounty.taskId} expired`);
+    
+    await commentOnIssueUrl(
+      bounty.issueUrl,
+      `⌛ This bounty expired on ${new Date(expiresAt).toISOString().slice(0, 10)} without a pull request.\n\n` +
+      `Comment \`/bounty cancel\` to refund ${bounty.amount} ${bounty.tokenSymbol} to the bot wallet.`
+    );
+    return;
+  }
+  
+  // An issue closed without a merged pull request leaves the funds in escrow; say so once
+  if (issue.state === 'closed' && !bounty.closedNotified) {
+    if (!saveRefreshedBounty(bounty, { closedNotified: true })) {
+      return;
+    }
+    
+    await commentOnIssueUrl(
+      bounty.issueUrl,
+      `ℹ️ This issue was closed without a merged pull request, so the bounty of ` +
+      `${bounty.amount} ${bounty.tokenSymbol} is still funded.\n\n` +
+      `Comment \`/bounty cancel\` to refund it, or reopen the issue to keep it going.`
+    );
+  }
+};
+
+// Check every tracked bounty for progress
+export const checkBountyLifecycles = async () => {
+  const bounties = listEntries<BountyRecord>('bounty').filter(isTracked);
+  
+  for (const bounty of bounties) {
+    try {
+      await withLogContext({ taskId: bounty.taskId, issueUrl: bounty.issueUrl }, () => refreshBounty(bounty));
+    } catch (error) {
+      logger.error(`Error checking bounty ${bounty.taskId}`, { error });
+    }
+  }
+};
+
+// Check the tracked bounties of one issue, e.g. after a webhook says it changed
+export const refreshBountiesForIssue = async (issueUrl: string) => {
+  for (const bounty of getBountyRecordsForIssue(issueUrl)) {
+    if (isTracked(bounty)) {
+      await refreshBounty(bounty);
+    }
+  }
+};
+
+// Cancel one bounty on Gib.work and send its refund transaction
+const cancelBounty = async (bounty: BountyRecord, username: string): Promise<void> => {
+  try {
+    logger.info(`Cancelling bounty ${bounty.taskId} for ${username}`);
+    const cancelResponse = await gibwork.createCancelTransaction(bounty.taskId, getWalletPublicKey());
+    recordAudit({
+      event: 'gibwork_response',
+      actor: username,
+      issueUrl: bounty.issueUrl,
+      amount: bounty.amount,
+      token: bounty.tokenSymbol,
+      outcome: 'cancel_created'
+    });
+    const sent = await signAndSendTransaction(
+      cancelResponse.serializedTransaction,
+      signed => recordSignedTransaction('cancel', signed, bounty, username)
+    );
+    
+    // The bounty is marked cancelled and its budget released once the refund confirms
+    await trackTransaction('cancel', sent, bounty, username);
+  } catch (error) {
+    logger.error(`Error cancelling bounty ${bounty.taskId}`, { error });
+    await commentOnIssueUrl(bounty.issueUrl, `❌ Could not cancel bounty ${bounty.taskId}: ${(error as Error).message}`);
+  }
+};
+
+// Handle `/bounty cancel`: cancel the issue's bounties on Gib.work and refund their escrow
+export const cancelBounties = async (issueUrl: string, username: string): Promise<void> => {
+  const bounties = getBountyRecordsForIssue(issueUrl).filter(bounty => CANCELLABLE_STATUSES.includes(bounty.status));
+  
+  if (bounties.length === 0) {
+    await commentOnIssueUrl(issueUrl, `ℹ️ There is no active bounty on this issue to cancel.`);
+    return;
+  }
+  
+  for (const bounty of bounties) {
+    if (hasPendingTransaction(bounty.taskId, 'cancel')) {
+      await commentOnIssueUrl(issueUrl, `ℹ️ Bounty ${bounty.taskId} is already being cancelled.`);
+      continue;
+    }
+    
+    await withLogContext({ taskId: bounty.taskId }, () => cancelBounty(bounty, username));
+  }
+};
+
+// Handle `/bounty status`: report the issue's bounties as the bot and Gib.work see them
+export const postBountyStatus = async (issueUrl: string): Promise<void> => {
+  const bounties = getBountyRecordsForIssue(issueUrl);
+  
+  if (bounties.length === 0) {
+    await commentOnIssueUrl(issueUrl, `ℹ️ There is no bounty on this issue yet.`);
+    return;
+  }
+  
+  const lines = await Promise.all(bounties.map(async bounty => {
+    let gibworkStatus = 'unavailable';
+    try {
+      gibworkStatus = (await gibwork.getTask(bounty.taskId)).status || 'unknown';
+    } catch (error) {
+      logger.error(`Error getting Gib.work status of ${bounty.taskId}`, { error });
+    }
+    
+    return `- [${bounty.amount} ${bounty.tokenSymbol}](${getBountyUrl(bounty.taskId)})` +
+           (bounty.parentTaskId ? ` (top-up of ${bounty.parentTaskId})` : '') + `: ` +
+           `${describeStatus(bounty)} (Gib.work: ${gibworkStatus})`;
+  }));
+  
+  await commentOnIssueUrl(issueUrl, `📋 Bounty status\n\n${lines.join('\n')}`);
+};
@@ -0,0 +1,77 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { AUDIT_LOG_FILE, LOG_FORMAT, LOG_LEVEL } from './config';
+import { AuditRecord, createAuditLog } from './audit';
+
+type LogFields = Record<string, unknown>;
+
+type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Correlation fields of the work in progress, e.g. the comment ID, task ID and signature of a
+// command, added to every log line and audit entry written while handling it
+const context = new AsyncLocalStorage<LogFields>();
+
+// Run a function with extra correlation fields on top of the current ones
+export const withLogContext = <T>(fields: LogFields, fn: () => Promise<T>): Promise<T> =>
+  context.run({ ...context.getStore(), ...fields }, fn);
+
+// Add correlation fields as they become known, e.g. the task ID once Gib.work returns it
+export const addLogContext = (fields: LogFields) => {
+  const store = context.getStore();
+  if (store) {
+    Object.assign(store, fields);
+  }
+};
+
+// Errors don't serialize to JSON on their own
+const serializeValue = (value: unknown): unknown =>
+  value instanceof Error ? { name: value.name, message: value.message, stack: value.stack } : value;
+
+const write = (level: LogLevel, message: string, fields: LogFields = {}) => {
+  if (LEVELS[level] < LEVELS[LOG_LEVEL as LogLevel]) {
+    return;
+  }
+  
+  const entry: LogFields = { time: new Date().toISOString(), level, msg: message, ...context.getStore() };
+  for (const [key, value] of Object.entries(fields)) {
+    entry[key] = serializeValue(value);
+  }
+  
+  let line: string;
+  if (LOG_FORMAT === 'text') {
+    const { time, msg, level: _, ...rest } = entry;
+    const extra = Object.entries(rest).map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`);
+    line = [time, level.toUpperCase(), msg, ...extra].join(' ');
+  } else {
+    line = JSON.stringify(entry);
+  }
+  
+  (LEVELS[level] >= LEVELS.warn ? process.stderr : process.stdout).write(`${line}\n`);
+};
+
+export const logger = {
+  debug: (message: string, fields?: LogFields) => write('debug', message, fields),
+  info: (message: string, fields?: LogFields) => write('info', message, fields),
+  warn: (message: string, fields?: LogFields) => write('warn', message, fields),
+  error: (message: string, fields?: LogFields) => write('error', message, fields)
+};
+
+const appendAudit = createAuditLog(AUDIT_LOG_FILE);
+
+// Record a step in the life of a command or payment in the audit log, with the current
+// correlation fields filled in
+export const recordAudit = (record: AuditRecord) => {
+  const store = context.getStore() || {};
+  try {
+    appendAudit({
+      commentId: store.commentId as number | undefined,
+      taskId: store.taskId as string | undefined,
+      signature: store.signature as string | undefined,
+      ...record
+    });
+  } catch (error) {
+    // An entry we can't write is a gap finance needs to know about, but it must not stop a payment halfway
+    logger.error('Error writing audit log entry', { error, audit: record });
+  }
+};
@@ -0,0 +1,127 @@
+// Prometheus metrics, kept in memory and rendered in the text exposition format.
+// Counters start from zero on every restart, which Prometheus handles as a counter reset.
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge' | 'histogram';
+  render: () => string[];
+}
+
+const registry: Metric[] = [];
+
+// Render a label set as {a="1",b="2"}
+const formatLabels = (labels: Labels): string => {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${value.replace(/["\\\n]/g, '\\$&')}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+};
+
+// Create a metric whose value per label set is a single number
+const createValueMetric = (name: string, help: string, type: 'counter' | 'gauge') => {
+  const values = new Map<string, number>();
+  
+  registry.push({
+    name,
+    help,
+    type,
+    render: () => Array.from(values, ([labels, value]) => `${name}${labels} ${value}`)
+  });
+  
+  return {
+    add: (amount: number, labels: Labels = {}) => {
+      const key = formatLabels(labels);
+      values.set(key, (values.get(key) || 0) + amount);
+    },
+    set: (value: number, labels: Labels = {}) => {
+      values.set(formatLabels(labels), value);
+    },
+    reset: () => values.clear()
+  };
+};
+
+// Create a counter
+const createCounter = (name: string, help: string) => {
+  const metric = createValueMetric(name, help, 'counter');
+  return { inc: (labels: Labels = {}) => metric.add(1, labels) };
+};
+
+// Create a gauge; `reset` drops label sets that no longer exist before it is set again
+const createGauge = (name: string, help: string) => {
+  const metric = createValueMetric(name, help, 'gauge');
+  return { set: metric.set, reset: metric.reset };
+};
+
+// Create a histogram with the given bucket upper bounds
+const createHistogram = (name: string, help: string, buckets: number[]) => {
+  const counts = buckets.map(() => 0);
+  let sum = 0;
+  let count = 0;
+  
+  registry.push({
+    name,
+    help,
+    type: 'histogram',
+    render: () => [
+      ...buckets.map((bucket, index) => `${name}_bucket{le="${bucket}"} ${counts[index]}`),
+      `${name}_bucket{le="+Inf"} ${count}`,
+      `${name}_sum ${sum}`,
+      `${name}_count ${count}`
+    ]
+  });
+  
+  return {
+    observe: (value: number) => {
+      buckets.forEach((bucket, index) => {
+        if (value <= bucket) {
+          counts[index]++;
+        }
+      });
+      sum += value;
+      count++;
+    }
+  };
+};
+
+export const commandsSeen = createCounter(
+  'gibwork_bot_commands_total',
+  'Bounty commands seen, by command type'
+);
+
+export const bountiesCreated = createCounter(
+  'gibwork_bot_bounties_created_total',
+  'Bounties whose funding transaction confirmed, by token'
+);
+
+export const failures = createCounter(
+  'gibwork_bot_failures_total',
+  'Bounty commands and transactions that failed, by reason'
+);
+
+export const confirmationSeconds = createHistogram(
+  'gibwork_bot_confirmation_seconds',
+  'Time from sending a transaction to seeing it confirmed',
+  [1, 2, 5, 10, 20, 30, 60, 120, 300]
+);
+
+export const walletBalance = createGauge(
+  'gibwork_bot_wallet_balance',
+  'Bot wallet balance, by token'
+);
+
+export const pendingTransactions = createGauge(
+  'gibwork_bot_pending_transactions',
+  'Sent transactions waiting for confirmation'
+);
+
+export const githubRateLimitRemaining = createGauge(
+  'gibwork_bot_github_rate_limit_remaining',
+  'GitHub API requests left in the current rate limit window'
+);
+
+// Render every metric in the Prometheus text format
+export const renderMetrics = (): string =>
+  registry
+    .flatMap(metric => [`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`, ...metric.render()])
+    .join('\n') + '\n';
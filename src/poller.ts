@@ -0,0 +1,110 @@
+import { POLL_CONCURRENCY } from './config';
+import { getRepositories } from './settings';
+import { getCommentsSince, getLabelEventsSince, parseRepoFullName } from './github';
+import { queueComment, queueLabelEvent } from './processor';
+import { getLabelCursor, getLastProcessedCommentTime, getRepoCursor, saveLabelCursor, saveRepoCursor } from './store';
+import { createJobQueue } from './queue';
+import { logger } from './logger';
+
+// Start time of this process, used as the cursor for repositories never polled before
+const startedAt = new Date().toISOString();
+
+// Repositories are polled in parallel, each by one job at a time
+const pollQueue = createJobQueue('poll', POLL_CONCURRENCY);
+
+// Whether a poll cycle is still running; a slow cycle makes the next cron tick skip
+let isPolling = false;
+
+// Poll one repository's comments from its cursor and advance the cursor past what we handled
+const checkComments = async (repoFullName: string) => {
+  const { owner, repo } = parseRepoFullName(repoFullName);
+  logger.info(`Checking for bounty commands in ${owner}/${repo}...`);
+  
+  // Without a cursor, resume from the newest handled comment, or from now on a fresh install
+  // so historical commands are never paid out
+  const cursor = getRepoCursor(repoFullName) || {
+    since: getLastProcessedCommentTime(repoFullName) || startedAt
+  };
+  
+  const page = await getCommentsSince(owner, repo, cursor.since, cursor.etag);
+  if (page.notModified) {
+    logger.info(`No new comments in ${owner}/${repo}`);
+    return;
+  }
+  
+  logger.info(`Found ${page.comments.length} updated comments`);
+  
+  // Comments on different issues are handled concurrently, but they come oldest update first,
+  // so the cursor only moves past a comment once it and every comment before it were handled
+  const handled = page.comments.map(comment => queueComment(comment).catch(error => {
+    logger.error(`Error handling comment ${comment.id}`, { error });
+  }));
+  
+  let since = cursor.since;
+  for (const [index, comment] of page.comments.entries()) {
+    await handled[index];
+    if (comment.updated_at > since) {
+      since = comment.updated_at;
+      saveRepoCursor(repoFullName, { since });
+    }
+  }
+  
+  // `since` is inclusive, so an unchanged cursor returns the same page next time
+  // and the ETag lets GitHub answer with a free 304
+  if (since === cursor.since) {
+    saveRepoCursor(repoFullName, { since, etag: page.etag });
+  }
+};
+
+// Poll one repository's label events and handle those after the cursor, oldest first
+const checkLabelEvents = async (repoFullName: string) => {
+  const { owner, repo } = parseRepoFullName(repoFullName);
+  const cursor = getLabelCursor(repoFullName);
+  
+  // Without a cursor this only finds the newest event, so labels added before now are never paid out
+  const page = await getLabelEventsSince(owner, repo, cursor?.lastEventId, cursor?.etag);
+  if (page.notModified) {
+    return;
+  }
+  
+  // Label events are rare and handled one by one, so the cursor can follow each of them
+  for (const event of page.events) {
+    try {
+      await queueLabelEvent(event);
+    } catch (error) {
+      logger.error(`Error handling label event ${event.id}`, { error });
+    }
+    saveLabelCursor(repoFullName, { lastEventId: event.id });
+  }
+  
+  if (page.newestId !== cursor?.lastEventId || page.etag !== cursor?.etag) {
+    saveLabelCursor(repoFullName, { lastEventId: page.newestId, etag: page.etag });
+  }
+};
+
+// Poll one repository for comments and label events
+const checkRepository = async (repoFullName: string) => {
+  await checkComments(repoFullName);
+  await checkLabelEvents(repoFullName);
+};
+
+// Check for bounty commands in comments and labels
+export const checkForBountyCommands = async () => {
+  if (isPolling) {
+    logger.info('Previous poll cycle is still running; skipping this one');
+    return;
+  }
+  
+  isPolling = true;
+  try {
+    await Promise.all(getRepositories().map(repoFullName => pollQueue.add(repoFullName, async () => {
+      try {
+        await checkRepository(repoFullName);
+      } catch (error) {
+        logger.error(`Error checking repo ${repoFullName}`, { error });
+      }
+    })));
+  } finally {
+    isPolling = false;
+  }
+};
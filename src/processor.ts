@@ -0,0 +1,288 @@
+import { BountyRole, CommandRef, GitHubComment, LabelEvent } from './types';
+import { commentOnIssueUrl, getBotLogin, getIssueFromUrl, getIssueInfoFromUrl } from './github';
+import { COMMAND_USAGE, parseBountyLabel, parseCommand } from './commands';
+import { authorize, formatUnauthorizedReply } from './auth';
+import { fundApprovedBounty, processBountyCommand, processTopupCommand, withdrawLabelBounty } from './bounty';
+import { approveRequest, rejectRequest } from './approvals';
+import { postBudgetReport } from './budgets';
+import { postBountyPreview } from './content';
+import { cancelBounties, postBountyStatus } from './lifecycle';
+import {
+  compactStore,
+  getCommandRecordsForIssue,
+  isCommentProcessed,
+  isLabelEventProcessed,
+  markCommentProcessed,
+  markLabelEventProcessed
+} from './store';
+import { createJobQueue } from './queue';
+import { commandsSeen } from './metrics';
+import { COMMAND_CONCURRENCY } from './config';
+import { getRepoSettings } from './settings';
+import { showCommandState } from './indicators';
+import { logger, recordAudit, withLogContext } from './logger';
+
+// Comments from the poller and webhooks, handled concurrently across issues
+const commandQueue = createJobQueue('commands', COMMAND_CONCURRENCY);
+
+// Check that a user holds a role in a command's repository, replying with the reason if not
+const checkRole = async (username: string, command: CommandRef, role: BountyRole): Promise<boolean> => {
+  const { owner, repo } = getIssueInfoFromUrl(command.issueUrl);
+  const repoFullName = `${owner}/${repo}`;
+  const { authorized, reason } = await authorize(username, repoFullName, role);
+  recordAudit({
+    event: 'authorization',
+    actor: username,
+    repository: repoFullName,
+    issueUrl: command.issueUrl,
+    outcome: authorized ? 'granted' : 'denied',
+    details: { role, reason }
+  });
+  
+  if (!authorized) {
+    logger.info(`Rejected ${role} command from ${username} in ${repoFullName}: ${reason}`);
+    await showCommandState(command, 'rejected');
+    await commentOnIssueUrl(command.issueUrl, formatUnauthorizedReply(username, repoFullName, role, reason));
+  }
+  
+  return authorized;
+};
+
+// Handle a single comment: parse it for a bounty command and process it once.
+//
+// Edited comments are parsed again, so a `/bounty` line added in an edit is picked up.
+// A comment can still only ever fund one bounty: once a command record exists for its ID,
+// processBountyCommand ignores further edits, and changing the amount in an edit only gets a reply.
+export const handleComment = async (comment: GitHubComment): Promise<void> => {
+  // Skip already processed comments, including those handled before a restart
+  if (isCommentProcessed(comment)) {
+    return;
+  }
+  
+  // Mark as processed before acting, so a crash mid-command never causes a second payment
+  markCommentProcessed(comment);
+  
+  // Comments and issue bodies can be empty; the bot's own replies can quote commands
+  if (!comment.body || comment.user.login === await getBotLogin()) {
+    return;
+  }
+  
+  const command = parseCommand(comment.body);
+  if (!command) {
+    return;
+  }
+  commandsSeen.inc({ type: command.type });
+  
+  const { owner, repo } = getIssueInfoFromUrl(comment.issue_url);
+  const ref: CommandRef = { issueUrl: comment.issue_url, commentId: comment.id, origin: comment.isIssueBody ? 'issue' : 'comment' };
+  const { type, ...details } = command;
+  recordAudit({
+    event: 'command_parsed',
+    actor: comment.user.login,
+    repository: `${owner}/${repo}`,
+    issueUrl: comment.issue_url,
+    outcome: type,
+    details
+  });
+  
+  switch (command.type) {
+    case 'invalid':
+      logger.info(`Invalid bounty command from ${comment.user.login}: ${command.error}`);
+      await commentOnIssueUrl(comment.issue_url, `❌ ${command.error}\n\nUsage:\n${COMMAND_USAGE}`);
+      return;
+    
+    case 'help':
+      await commentOnIssueUrl(comment.issue_url, `ℹ️ Bounty commands:\n${COMMAND_USAGE}`);
+      return;
+    
+    // Anyone following the issue may ask for its bounty status
+    case 'status':
+      await postBountyStatus(comment.issue_url);
+      return;
+    
+    // Previews take the same role as funding, since they are how maintainers prepare a bounty
+    case 'preview':
+      if (!await checkRole(comment.user.login, ref, 'create')) {
+        return;
+      }
+      
+      logger.info(`Previewing bounty for ${comment.user.login}: ${command.amount} ${command.token} on issue ${comment.issue_url}`);
+      await postBountyPreview({
+        amount: command.amount,
+        token: command.token,
+        options: {
+          ...command.options,
+          isPublic: command.options.isPublic || getRepoSettings(`${owner}/${repo}`).visibility === 'public'
+        },
+        issueUrl: comment.issue_url,
+        commentId: comment.id,
+        requestedBy: comment.user.login,
+        origin: ref.origin
+      });
+      return;
+    
+    case 'budget':
+      if (!await checkRole(comment.user.login, ref, 'create')) {
+        return;
+      }
+      
+      logger.info(`Reporting remaining budget to ${comment.user.login}`);
+      await postBudgetReport(comment.issue_url, comment.user.login);
+      return;
+    
+    case 'cancel':
+      if (!await checkRole(comment.user.login, ref, 'cancel')) {
+        return;
+      }
+      
+      await cancelBounties(comment.issue_url, comment.user.login);
+      return;
+    
+    case 'topup':
+      if (!await checkRole(comment.user.login, ref, 'create')) {
+        return;
+      }
+      
+      await showCommandState(ref, 'working');
+      await processTopupCommand({
+        amount: command.amount,
+        token: command.token,
+        issueUrl: comment.issue_url,
+        commentId: comment.id,
+        requestedBy: comment.user.login,
+        origin: ref.origin
+      });
+      return;
+    
+    case 'approve': {
+      if (!await checkRole(comment.user.login, ref, 'approve')) {
+        return;
+      }
+      
+      const approval = await approveRequest(command.id, comment.user.login, comment.issue_url);
+      if (!approval) {
+        return;
+      }
+      
+      await fundApprovedBounty(approval.command, approval.token);
+      return;
+    }
+    
+    case 'reject':
+      if (!await checkRole(comment.user.login, ref, 'approve')) {
+        return;
+      }
+      
+      await rejectRequest(command.id, comment.user.login, comment.issue_url);
+      return;
+    
+    case 'create':
+      if (!await checkRole(comment.user.login, ref, 'create')) {
+        return;
+      }
+      
+      logger.info(`Found bounty command from ${comment.user.login}: ${command.amount} ${command.token} on issue ${comment.issue_url}`);
+      await showCommandState(ref, 'working');
+      await processBountyCommand({
+        amount: command.amount,
+        token: command.token,
+        // `--public` makes any bounty public; without it the repository's visibility applies
+        options: {
+          ...command.options,
+          isPublic: command.options.isPublic || getRepoSettings(`${owner}/${repo}`).visibility === 'public'
+        },
+        issueUrl: comment.issue_url,
+        commentId: comment.id,
+        requestedBy: comment.user.login,
+        origin: ref.origin
+      });
+      return;
+  }
+};
+
+// Handle a label added to or removed from an issue. Adding a `bounty:<amount>-<token>` label is
+// a bounty command from whoever added it; removing it before the bounty is funded withdraws it.
+export const handleLabelEvent = async (event: LabelEvent): Promise<void> => {
+  if (isLabelEventProcessed(event)) {
+    return;
+  }
+  
+  // Mark as processed before acting, like comments, so a crash never causes a second payment
+  markLabelEventProcessed(event);
+  
+  const bountyLabel = parseBountyLabel(event.label);
+  if (!bountyLabel || event.actor === await getBotLogin()) {
+    return;
+  }
+  commandsSeen.inc({ type: `label_${event.action}` });
+  
+  const { owner, repo } = getIssueInfoFromUrl(event.issueUrl);
+  const ref: CommandRef = { issueUrl: event.issueUrl, commentId: event.id, origin: 'label' };
+  recordAudit({
+    event: 'command_parsed',
+    actor: event.actor,
+    repository: `${owner}/${repo}`,
+    issueUrl: event.issueUrl,
+    outcome: `label_${event.action}`,
+    details: { label: event.label, ...bountyLabel }
+  });
+  
+  if (event.action === 'unlabeled') {
+    const labelCommand = getCommandRecordsForIssue(event.issueUrl).filter(record => record.label === event.label).pop();
+    
+    // Withdrawing a bounty takes the same role as cancelling one
+    if (labelCommand && (labelCommand.status !== 'pending_approval' || await checkRole(event.actor, ref, 'cancel'))) {
+      await withdrawLabelBounty(labelCommand, event.actor);
+    }
+    return;
+  }
+  
+  if (!await checkRole(event.actor, ref, 'create')) {
+    return;
+  }
+  
+  // Polling can see a label added and removed again in one go; only a label still on the issue counts
+  const issue = await getIssueFromUrl(event.issueUrl);
+  if (!issue.labels?.some(label => label.name === event.label)) {
+    logger.info(`Skipping label ${event.label} on ${event.issueUrl}: it was removed again`);
+    return;
+  }
+  
+  logger.info(`Found bounty label from ${event.actor}: ${event.label} on issue ${event.issueUrl}`);
+  await processBountyCommand({
+    amount: bountyLabel.amount,
+    token: bountyLabel.token,
+    options: { isPublic: getRepoSettings(`${owner}/${repo}`).visibility === 'public' },
+    issueUrl: event.issueUrl,
+    commentId: event.id,
+    requestedBy: event.actor,
+    origin: 'label',
+    label: event.label
+  });
+};
+
+// Queue a comment for handling. Comments on the same issue are handled one at a time, so
+// commands racing on an issue (two `/bounty` comments, a cancel during funding) see each other.
+export const queueComment = (comment: GitHubComment): Promise<void> =>
+  commandQueue.add(comment.issue_url, () => withLogContext(
+    { commentId: comment.id, issueUrl: comment.issue_url, user: comment.user.login },
+    () => handleComment(comment)
+  ));
+
+// Queue a label event for handling, in order with the comments on the same issue
+export const queueLabelEvent = (event: LabelEvent): Promise<void> =>
+  commandQueue.add(event.issueUrl, () => withLogContext(
+    { commentId: event.id, issueUrl: event.issueUrl, user: event.actor },
+    () => handleLabelEvent(event)
+  ));
+
+// Run a job in an issue's queue, after the comments and label events already queued for the issue,
+// so an operator resetting a command never races the job still handling it
+export const queueIssueJob = <T>(issueUrl: string, job: () => Promise<T>): Promise<T> =>
+  commandQueue.add(issueUrl, job);
+
+// Drop processed comments and command records past the retention period
+export const cleanupProcessedComments = () => {
+  logger.info('Cleaning up expired state entries...');
+  compactStore();
+};
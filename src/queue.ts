@@ -0,0 +1,73 @@
+import { logger } from './logger';
+
+// A job queue that runs up to `concurrency` jobs at once. Jobs that share a key run one
+// at a time in the order they were added, so e.g. two commands on the same issue never race.
+export interface JobQueue {
+  add<T>(key: string, job: () => Promise<T>): Promise<T>;
+  size(): number;
+}
+
+// Create a job queue with the given concurrency
+export const createJobQueue = (name: string, concurrency: number): JobQueue => {
+  let running = 0;
+  let queued = 0;
+  const waiting: (() => void)[] = [];
+  
+  // The last job added for each key; the next job with that key starts after it settles
+  const tails = new Map<string, Promise<unknown>>();
+  
+  // Wait for a free slot
+  const acquire = async () => {
+    if (running < concurrency) {
+      running++;
+      return;
+    }
+  
+    logger.info(`[${name}] All ${concurrency} slots busy; ${waiting.length + 1} jobs waiting`);
+    await new Promise<void>(resolve => waiting.push(resolve));
+  };
+  
+  // Hand the slot to the next waiting job, or free it
+  const release = () => {
+    const next = waiting.shift();
+    if (next) {
+      next();
+    } else {
+      running--;
+    }
+  };
+  
+  const add = <T>(key: string, job: () => Promise<T>): Promise<T> => {
+    queued++;
+  
+    const previous = tails.get(key) || Promise.resolve();
+    const result = previous.then(async () => {
+      await acquire();
+      try {
+        return await job();
+      } finally {
+        queued--;
+        release();
+      }
+    });
+  
+    // A failed job must not block the jobs after it
+    const tail = result.catch(() => undefined);
+    tails.set(key, tail);
+    tail.then(() => {
+      if (tails.get(key) === tail) {
+        tails.delete(key);
+      }
+    });
+  
+    return result;
+  };
+  
+  return { add, size: () => queued };
+};
+
+// Locks for work that must never overlap, keyed by what it protects
+const locks = createJobQueue('locks', Infinity);
+
+// Run a function once no other function holding the same lock is running
+export const withLock = <T>(key: string, fn: () => Promise<T>): Promise<T> => locks.add(key, fn);
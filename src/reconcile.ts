@@ -0,0 +1,204 @@
+import { ConfirmedSignatureInfo, PublicKey, SignatureStatus } from '@solana/web3.js';
+import { BountyRecord, CommandRecord, OrphanedTransaction, PendingTransaction, ReconcileReport, UnconfirmedRecord } from './types';
+import { STATE_RETENTION_DAYS } from './config';
+import { connection } from './solana';
+import { getWalletPublicKey } from './signer';
+import { commandKey, listEntries } from './store';
+import { logger } from './logger';
+
+// Most signatures the RPC returns per getSignaturesForAddress call
+const SIGNATURE_PAGE_SIZE = 1000;
+
+// Most signatures the RPC checks per getSignatureStatuses call
+const STATUS_BATCH_SIZE = 256;
+
+// Get the wallet's signatures newest first, back to a cutoff time or up to a limit
+const getRecentSignatures = async (wallet: PublicKey, since: Date, limit: number): Promise<ConfirmedSignatureInfo[]> => {
+  const signatures: ConfirmedSignatureInfo[] = [];
+  let before: string | undefined;
+  
+  while (signatures.length < limit) {
+    const page = await connection.getSignaturesForAddress(wallet, {
+      before,
+      limit: Math.min(SIGNATURE_PAGE_SIZE, limit - signatures.length)
+    });
+  
+    const recent = page.filter(info => !info.blockTime || info.blockTime * 1000 >= since.getTime());
+    signatures.push(...recent);
+    if (recent.length < page.length || page.length < SIGNATURE_PAGE_SIZE) {
+      break;
+    }
+    before = page[page.length - 1].signature;
+  }
+  
+  return signatures;
+};
+
+// Whether the wallet paid for a transaction, i.e. sent it rather than just received funds in it
+const isSentByWallet = async (signature: string, wallet: PublicKey): Promise<boolean> => {
+  const transaction = await connection.getTransaction(signature, { maxSupportedTransactionVersion: 0 });
+  return Boolean(transaction?.transaction.message.staticAccountKeys[0]?.equals(wallet));
+};
+
+// Find successful wallet transactions that no issue was told about: unknown to the bot, sent for a
+// command but never tracked, tracked without a status comment, or recorded as failed despite landing
+const findOrphanedTransactions = async (
+  signatures: ConfirmedSignatureInfo[],
+  wallet: PublicKey
+): Promise<OrphanedTransaction[]> => {
+  const transactions = new Map(listEntries<PendingTransaction>('transaction').map(record => [record.signature, record]));
+  const commands = new Map(
+    listEntries<CommandRecord>('command')
+      .filter(record => record.signature)
+      .map(record => [record.signature!, record])
+  );
+  const bounties = new Set(listEntries<BountyRecord>('bounty').map(record => record.signature));
+  const orphaned: OrphanedTransaction[] = [];
+  
+  for (const info of signatures) {
+    // Failed transactions only cost a fee; they never funded anything
+    if (info.err) {
+      continue;
+    }
+  
+    const orphan = (reason: string, record?: { commentId: number; issueUrl: string }): OrphanedTransaction => ({
+      signature: info.signature,
+      blockTime: info.blockTime ? new Date(info.blockTime * 1000).toISOString() : undefined,
+      commentId: record?.commentId,
+      issueUrl: record?.issueUrl,
+      reason
+    });
+  
+    const transaction = transactions.get(info.signature);
+    const command = commands.get(info.signature);
+  
+    if (transaction) {
+      if (transaction.status === 'failed' || transaction.status === 'expired') {
+        orphaned.push(orphan(`Landed on chain, but the bot announced it as ${transaction.status}`, transaction.bounty));
+      } else if (!transaction.statusCommentId) {
+        orphaned.push(orphan('Tracked, but its status comment was never posted', transaction.bounty));
+      }
+    } else if (command) {
+      orphaned.push(orphan(`Sent for a ${command.status} command, but never tracked or announced`, command));
+    } else if (!bounties.has(info.signature) && await isSentByWallet(info.signature, wallet)) {
+      orphaned.push(orphan('Sent from the bot wallet, but unknown to the bot'));
+    }
+  }
+  
+  return orphaned;
+};
+
+// Find transactions the bot wallet sent since a time that no issue was told about, e.g. one sent just
+// before the bot stopped
+export const findUnrecordedTransactions = async (since: Date, limit: number): Promise<OrphanedTransaction[]> => {
+  const wallet = new PublicKey(getWalletPublicKey());
+  return findOrphanedTransactions(await getRecentSignatures(wallet, since, limit), wallet);
+};
+
+// Explain why a signature status is not a confirmed transaction, or return null if it is
+const describeSignatureStatus = (status: SignatureStatus | null): string | null => {
+  if (!status) {
+    return 'Transaction not found on chain';
+  }
+  if (status.err) {
+    return `Transaction failed on chain: ${JSON.stringify(status.err)}`;
+  }
+  if (status.confirmationStatus !== 'confirmed' && status.confirmationStatus !== 'finalized') {
+    return `Transaction only ${status.confirmationStatus || 'processed'}`;
+  }
+  return null;
+};
+
+// Look signatures up on chain, mapping each to why it is not confirmed, or null if it is
+const checkSignatures = async (signatures: string[]): Promise<Map<string, string | null>> => {
+  const unique = [...new Set(signatures)];
+  const reasons = new Map<string, string | null>();
+  
+  for (let start = 0; start < unique.length; start += STATUS_BATCH_SIZE) {
+    const batch = unique.slice(start, start + STATUS_BATCH_SIZE);
+    const { value: statuses } = await connection.getSignatureStatuses(batch, { searchTransactionHistory: true });
+    batch.forEach((signature, index) => reasons.set(signature, describeSignatureStatus(statuses[index])));
+  }
+  
+  return reasons;
+};
+
+// Find records since a time that say funds moved without a confirmed transaction on chain: bounties
+// recorded as funded, transactions tracked as pending or confirmed, and commands stuck after
+// funding started. Commands only get a bounty record once their transaction confirms, so a command
+// the bot lost track of mid-funding shows up here rather than as a bounty.
+const findUnconfirmedRecords = async (since: Date): Promise<UnconfirmedRecord[]> => {
+  const isRecent = (time: string) => new Date(time) >= since;
+  const bounties = listEntries<BountyRecord>('bounty').filter(bounty => isRecent(bounty.createdAt));
+  const bountySignatures = new Set(bounties.map(bounty => bounty.signature));
+  // A confirmed create transaction shares its signature with its bounty, which is already checked
+  const transactions = listEntries<PendingTransaction>('transaction').filter(record =>
+    ['sending', 'pending', 'confirmed'].includes(record.status) &&
+    isRecent(record.submittedAt) &&
+    !bountySignatures.has(record.signature)
+  );
+  const commands = listEntries<CommandRecord>('command').filter(record =>
+    (record.status === 'processing' || record.status === 'submitted') && isRecent(record.createdAt)
+  );
+  
+  const reasons = await checkSignatures([
+    ...bounties.map(bounty => bounty.signature),
+    ...transactions.map(record => record.signature),
+    ...commands.flatMap(record => record.signature ? [record.signature] : [])
+  ]);
+  const unconfirmed: UnconfirmedRecord[] = [];
+  
+  for (const bounty of bounties) {
+    const reason = reasons.get(bounty.signature);
+    if (reason) {
+      unconfirmed.push({ kind: 'bounty', id: bounty.taskId, issueUrl: bounty.issueUrl, signature: bounty.signature, reason });
+    }
+  }
+  
+  for (const record of transactions) {
+    const reason = reasons.get(record.signature);
+    if (reason) {
+      unconfirmed.push({
+        kind: 'transaction',
+        id: record.bounty.taskId,
+        issueUrl: record.bounty.issueUrl,
+        signature: record.signature,
+        reason: `${reason}, but tracked as ${record.status} (${record.kind})`
+      });
+    }
+  }
+  
+  // A stuck command is worth a look whatever its transaction did: the bot never finished with it
+  for (const record of commands) {
+    const reason = record.signature ?
+      reasons.get(record.signature) || 'Transaction confirmed on chain, but never recorded as a bounty' :
+      'No transaction was sent';
+    unconfirmed.push({
+      kind: 'command',
+      id: commandKey(record),
+      issueUrl: record.issueUrl,
+      signature: record.signature,
+      reason: `${reason}; command ${record.status} since ${record.updatedAt}`
+    });
+  }
+  
+  return unconfirmed;
+};
+
+// Match the bot wallet's recent transactions against the bot's records. Only the state retention
+// period is checked; older records may have been compacted away.
+export const reconcileWallet = async (limit: number): Promise<ReconcileReport> => {
+  const wallet = new PublicKey(getWalletPublicKey());
+  const since = new Date(Date.now() - STATE_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  
+  logger.info(`Scanning up to ${limit} transactions of ${wallet.toBase58()} since ${since.toISOString()}`);
+  const signatures = await getRecentSignatures(wallet, since, limit);
+  
+  return {
+    wallet: wallet.toBase58(),
+    scanned: signatures.length,
+    since: since.toISOString(),
+    orphaned: await findOrphanedTransactions(signatures, wallet),
+    unconfirmed: await findUnconfirmedRecords(since)
+  };
+};
@@ -0,0 +1,118 @@
+import { CommandRecord, GitHubComment, IssuesEventPayload } from './types';
+import { DRY_RUN } from './config';
+import { getComment, getIssueFromUrl, getIssueInfoFromUrl } from './github';
+import { releaseBudget } from './budgets';
+import { queueComment, queueIssueJob, queueLabelEvent } from './processor';
+import { getCommentFromEvent } from './webhook';
+import { findUnrecordedTransactions } from './reconcile';
+import { commandKey, deleteEntry, getCommandRecord, unmarkCommentProcessed, unmarkLabelEventProcessed } from './store';
+import { logger, recordAudit } from './logger';
+
+// Commands an operator can neither retry nor abandon
+export const SETTLED_STATUSES = ['confirmed', 'rejected'];
+
+// Most wallet transactions checked before a forced retry
+const FORCED_RETRY_CHECK_LIMIT = 1000;
+
+// Get the comment a command came from; commands in an issue body carry the issue's ID
+const fetchCommandComment = async (record: CommandRecord): Promise<GitHubComment> => {
+  if (record.origin === 'issue') {
+    const issue = await getIssueFromUrl(record.issueUrl) as IssuesEventPayload['issue'];
+    return getCommentFromEvent('issues', { action: 'edited', issue })!;
+  }
+  
+  const { owner, repo } = getIssueInfoFromUrl(record.issueUrl);
+  return getComment(owner, repo, record.commentId);
+};
+
+// Explain why a command can't be run again, or return null if it can. A `processing` command may
+// have sent funds just before the bot stopped, so it is only retried when forced, after checkForcedReplay.
+export const getReplayBlocker = (record: CommandRecord, force = false): string | null => {
+  if (SETTLED_STATUSES.includes(record.status) || record.status === 'pending_approval') {
+    return `Command is ${record.status}; there is nothing to retry`;
+  }
+  if (record.status === 'processing' && !force) {
+    return 'Command is still processing, so its transaction may have been sent before the bot stopped and ' +
+           'retrying could pay twice. Run `gibwork-bot reconcile` and check the wallet on an explorer, then ' +
+           'retry with --force (force=true on the admin API) if nothing was sent.';
+  }
+  if (record.signature) {
+    return `Command already sent transaction ${record.signature}, so retrying could pay twice. ` +
+           `Check it on an explorer and abandon the command if it never landed.`;
+  }
+  if (record.origin === 'cli') {
+    return 'Command was issued from the CLI, which has no comment to replay; run `gibwork-bot create` again instead';
+  }
+  return null;
+};
+
+// Check the chain before forcing a retry of a `processing` command: any transaction the wallet sent
+// since the command started that the bot has no record of may have paid for it
+export const checkForcedReplay = async (record: CommandRecord): Promise<string | null> => {
+  if (record.status !== 'processing' || DRY_RUN) {
+    return null;
+  }
+  
+  const unrecorded = await findUnrecordedTransactions(new Date(record.createdAt), FORCED_RETRY_CHECK_LIMIT);
+  if (unrecorded.length === 0) {
+    return null;
+  }
+  return `The wallet sent ${unrecorded.length} transaction(s) since the command started that the bot has no ` +
+         `record of (${unrecorded.map(orphan => orphan.signature).join(', ')}). Check them on an explorer and ` +
+         `abandon the command if one paid the bounty.`;
+};
+
+// Handle a comment again as if it had just been posted, even though it was already processed
+export const replayComment = (comment: GitHubComment): Promise<void> => {
+  unmarkCommentProcessed(comment);
+  return queueComment(comment);
+};
+
+// Run a command that failed or got stuck before its transaction was sent again from its comment or
+// label event. The command is forgotten first, so the pipeline, including authorization and the
+// one-bounty guard, runs again. Check getReplayBlocker (and checkForcedReplay when forcing) first;
+// it is checked again in the issue's queue, where the command is reset, and throws if the command
+// moved on in the meantime.
+export const replayCommand = async (record: CommandRecord, actor: string, force = false): Promise<void> => {
+  // Label commands are replayed from their label event, which is still checked against the issue's labels
+  const comment = record.origin === 'label' ? null : await fetchCommandComment(record);
+  
+  await queueIssueJob(record.issueUrl, async () => {
+    const current = getCommandRecord(record);
+    if (!current) {
+      throw new Error(`No command record for comment ${record.commentId}`);
+    }
+    const blocker = getReplayBlocker(current, force);
+    if (blocker) {
+      throw new Error(blocker);
+    }
+  
+    logger.info(`Retrying bounty command from comment ${record.commentId} on operator request`);
+    recordAudit({
+      event: 'operator_action',
+      actor,
+      issueUrl: record.issueUrl,
+      commentId: record.commentId,
+      outcome: 'retry',
+      details: { previousStatus: current.status, force }
+    });
+    releaseBudget(record);
+    deleteEntry('command', commandKey(record));
+    if (record.origin === 'label') {
+      unmarkLabelEventProcessed(record.commentId);
+    }
+  });
+  
+  if (comment) {
+    await replayComment(comment);
+  } else {
+    await queueLabelEvent({
+      id: record.commentId,
+      action: 'labeled',
+      label: record.label!,
+      actor: record.requestedBy,
+      issueUrl: record.issueUrl,
+      createdAt: record.createdAt
+    });
+  }
+};
@@ -0,0 +1,30 @@
+// Encrypt a Solana CLI keypair file into a keystore for SIGNER_TYPE=keystore.
+//
+// Usage: KEYSTORE_PASSPHRASE=... npm run keystore:create -- <keypair.json> <keystore.json>
+import fs from 'fs';
+import { Keypair } from '@solana/web3.js';
+import { encryptKeystore } from '../keystore';
+
+const [keypairPath, keystorePath] = process.argv.slice(2);
+const passphrase = process.env.KEYSTORE_PASSPHRASE || '';
+
+if (!keypairPath || !keystorePath) {
+  console.error('Usage: KEYSTORE_PASSPHRASE=... npm run keystore:create -- <keypair.json> <keystore.json>');
+  process.exit(1);
+}
+
+if (passphrase.length < 12) {
+  console.error('KEYSTORE_PASSPHRASE must be at least 12 characters');
+  process.exit(1);
+}
+
+if (fs.existsSync(keystorePath)) {
+  console.error(`${keystorePath} already exists; refusing to overwrite it`);
+  process.exit(1);
+}
+
+const keypair = Keypair.fromSecretKey(Uint8Array.from(JSON.parse(fs.readFileSync(keypairPath, 'utf8'))));
+const keystore = encryptKeystore(keypair.secretKey, keypair.publicKey.toBase58(), passphrase);
+
+fs.writeFileSync(keystorePath, JSON.stringify(keystore, null, 2), { mode: 0o600 });
+console.log(`Wrote keystore for ${keypair.publicKey.toBase58()} to ${keystorePath}`);
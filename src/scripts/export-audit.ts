@@ -0,0 +1,51 @@
+// Verify an audit log's hash chain and export it as CSV for finance.
+//
+// Usage: npm run audit:export -- <audit.jsonl> [--from 2024-01-01] [--to 2024-02-01] > audit.csv
+import { formatAuditCsv, readAuditLog, verifyAuditLog } from '../audit';
+
+const args = process.argv.slice(2);
+const file = args.find((arg, index) => !arg.startsWith('--') && !args[index - 1]?.startsWith('--'));
+
+// Read an optional --from/--to date
+const getDateOption = (name: string): Date | undefined => {
+  const index = args.indexOf(`--${name}`);
+  if (index === -1) {
+    return undefined;
+  }
+  
+  const date = new Date(args[index + 1]);
+  if (isNaN(date.getTime())) {
+    console.error(`--${name} must be a date, got '${args[index + 1]}'`);
+    process.exit(1);
+  }
+  return date;
+};
+
+if (!file) {
+  console.error('Usage: npm run audit:export -- <audit.jsonl> [--from 2024-01-01] [--to 2024-02-01] > audit.csv');
+  process.exit(1);
+}
+
+const from = getDateOption('from');
+const to = getDateOption('to');
+const entries = readAuditLog(file);
+
+// The whole chain is checked even when only part of it is exported
+const broken = verifyAuditLog(entries);
+if (broken) {
+  console.error(`Audit log ${file} has been tampered with: ${broken}`);
+  process.exit(1);
+}
+
+const selected = entries.filter(entry => {
+  const time = new Date(entry.time);
+  return (!from || time >= from) && (!to || time < to);
+});
+
+process.stdout.write(formatAuditCsv(selected));
+
+const head = entries[entries.length - 1];
+console.error(
+  `Exported ${selected.length} of ${entries.length} entries; chain intact` +
+  (head ? ` up to entry ${head.seq} (${head.hash})` : '')
+);
@@ -0,0 +1,41 @@
+import http from 'http';
+import { RouteHandler } from './types';
+import { ADMIN_API_TOKEN, BOT_MODE, PORT } from './config';
+import { handleWebhookRequest } from './webhook';
+import { adminRoutes } from './admin';
+import { logger } from './logger';
+
+// Routes served by the bot, keyed by "METHOD path". Webhooks are only accepted in webhook
+// mode, and the admin API only exists when it has a token.
+const routes: Record<string, RouteHandler> = {
+  ...(BOT_MODE === 'webhook' ? { 'POST /webhook': handleWebhookRequest } : {}),
+  ...(ADMIN_API_TOKEN ? adminRoutes : {})
+};
+
+// Start the HTTP server
+export const startServer = (): http.Server => {
+  const server = http.createServer(async (req, res) => {
+    const path = (req.url || '/').split('?')[0];
+    const handler = routes[`${req.method} ${path}`];
+    
+    if (!handler) {
+      res.writeHead(404).end();
+      return;
+    }
+    
+    try {
+      await handler(req, res);
+    } catch (error) {
+      logger.error(`Error handling ${req.method} ${path}`, { error });
+      if (!res.headersSent) {
+        res.writeHead(500).end();
+      }
+    }
+  });
+  
+  server.listen(PORT, () => {
+    logger.info(`Listening on port ${PORT} for ${Object.keys(routes).join(', ')}`);
+  });
+  
+  return server;
+};
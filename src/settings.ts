@@ -0,0 +1,314 @@
+import fs from 'fs';
+import crypto from 'crypto';
+import { LineCounter, parseDocument } from 'yaml';
+import { AuthorizationRule, BotSettings, RepoSettings, RepoSettingsOverrides } from './types';
+import {
+  AUTHORIZED_USERS,
+  CONFIG_FILE,
+  REPOSITORIES,
+  REPO_ALLOWED_TOKENS,
+  REPO_AUTHORIZATION,
+  parseAuthorizationRule,
+  validateAuthorizationRule
+} from './config';
+import { searchRepositories } from './github';
+import { logger, recordAudit } from './logger';
+
+type Path = (string | number)[];
+
+// Throws an error naming the field at a path of the config file
+type Fail = (path: Path, message: string) => never;
+
+// How often the config file is checked for changes
+const WATCH_INTERVAL_MS = 2000;
+
+// Placeholders a task template can use
+const TEMPLATE_PLACEHOLDERS = ['title', 'body', 'url', 'repository', 'amount', 'token', 'requestedBy'];
+
+// Repository list entries that stand for many repositories: owner/* or owner/topic:<topic>
+const PATTERN = /^([\w.-]+)\/(?:\*|topic:([\w-]+))$/;
+
+const REPO_KEYS = ['authorizedUsers', 'allowedTokens', 'visibility', 'requirements', 'tags', 'templates'];
+
+// Settings of repositories the config file says nothing about
+const BUILT_IN_DEFAULTS: RepoSettings = {
+  authorizedUsers: [],
+  visibility: 'private',
+  requirements: 'PR to be merged',
+  templates: { title: '{title}', content: '{body}' }
+};
+
+// Render a config file path as e.g. repositories["owner/repo"].allowedTokens[1]
+const formatPath = (path: Path): string =>
+  path.reduce<string>((text, key) =>
+    typeof key === 'number' ? `${text}[${key}]` :
+    /^[A-Za-z_]\w*$/.test(key) ? (text ? `${text}.${key}` : key) :
+    `${text}[${JSON.stringify(key)}]`, '') || '(top level)';
+
+// Check a parsed config file against the schema, calling `fail` on the first invalid field
+const validateSettings = (raw: unknown, fail: Fail): BotSettings => {
+  const mapping = (value: unknown, path: Path, keys?: string[]): Record<string, unknown> => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return fail(path, 'must be a mapping');
+    }
+  
+    const unknownKey = keys && Object.keys(value).find(key => !keys.includes(key));
+    if (unknownKey) {
+      return fail([...path, unknownKey], `is not a known setting; expected one of ${keys.join(', ')}`);
+    }
+    return value as Record<string, unknown>;
+  };
+  
+  const text = (value: unknown, path: Path): string =>
+    typeof value === 'string' && value.trim() ? value.trim() : fail(path, 'must be a non-empty string');
+  
+  const textList = (value: unknown, path: Path): string[] => {
+    if (!Array.isArray(value) || value.length === 0) {
+      return fail(path, 'must be a non-empty list');
+    }
+    return value.map((item, index) => text(item, [...path, index]));
+  };
+  
+  const template = (value: unknown, path: Path): string => {
+    const result = text(value, path);
+    for (const [, name] of result.matchAll(/\{(\w+)\}/g)) {
+      if (!TEMPLATE_PLACEHOLDERS.includes(name)) {
+        return fail(path, `has unknown placeholder {${name}}; use ${TEMPLATE_PLACEHOLDERS.map(p => `{${p}}`).join(', ')}`);
+      }
+    }
+    return result;
+  };
+  
+  const repoSettings = (value: unknown, path: Path): RepoSettingsOverrides => {
+    const fields = mapping(value ?? {}, path, REPO_KEYS);
+    const settings: RepoSettingsOverrides = {};
+  
+    if (fields.authorizedUsers !== undefined) {
+      // A bare login is a user rule with every role
+      settings.authorizedUsers = textList(fields.authorizedUsers, [...path, 'authorizedUsers']).map((entry, index) => {
+        const rule = parseAuthorizationRule(entry.split('@')[0].includes(':') ? entry : `user:${entry}`);
+        const problem = validateAuthorizationRule(rule);
+        return problem ? fail([...path, 'authorizedUsers', index], problem) : rule;
+      });
+    }
+    if (fields.allowedTokens !== undefined) {
+      settings.allowedTokens = textList(fields.allowedTokens, [...path, 'allowedTokens']);
+    }
+    if (fields.visibility !== undefined) {
+      if (fields.visibility !== 'public' && fields.visibility !== 'private') {
+        return fail([...path, 'visibility'], `must be either 'public' or 'private'`);
+      }
+      settings.visibility = fields.visibility;
+    }
+    if (fields.requirements !== undefined) {
+      settings.requirements = text(fields.requirements, [...path, 'requirements']);
+    }
+    if (fields.tags !== undefined) {
+      settings.tags = textList(fields.tags, [...path, 'tags']);
+    }
+    if (fields.templates !== undefined) {
+      const templates = mapping(fields.templates, [...path, 'templates'], ['title', 'content']);
+      settings.templates = {};
+      if (templates.title !== undefined) {
+        settings.templates.title = template(templates.title, [...path, 'templates', 'title']);
+      }
+      if (templates.content !== undefined) {
+        settings.templates.content = template(templates.content, [...path, 'templates', 'content']);
+      }
+    }
+  
+    return settings;
+  };
+  
+  const root = mapping(raw ?? {}, [], ['defaults', 'repositories']);
+  const defaults = repoSettings(root.defaults, ['defaults']);
+  const repositories = Object.entries(mapping(root.repositories ?? {}, ['repositories']));
+  
+  const seen = new Set<string>();
+  for (const [name] of repositories) {
+    if (!/^[\w.-]+\/[\w.-]+$/.test(name) && !PATTERN.test(name)) {
+      fail(['repositories', name], 'must be named as owner/repo, owner/* or owner/topic:<topic>');
+    }
+    if (seen.has(name.toLowerCase())) {
+      fail(['repositories', name], 'is listed twice');
+    }
+    seen.add(name.toLowerCase());
+  }
+  
+  return {
+    defaults: {
+      ...BUILT_IN_DEFAULTS,
+      ...defaults,
+      templates: { ...BUILT_IN_DEFAULTS.templates, ...defaults.templates }
+    },
+    repositories: repositories.map(([name, value]) => ({ name, settings: repoSettings(value, ['repositories', name]) }))
+  };
+};
+
+// Read and validate the config file, with errors that name the file, field and line
+const readSettingsFile = (file: string): BotSettings => {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(fs.readFileSync(file, 'utf8'), { lineCounter, prettyErrors: true });
+  if (doc.errors.length > 0) {
+    throw new Error(`${file}: ${doc.errors[0].message}`);
+  }
+  
+  const fail: Fail = (path, message) => {
+    // Point at the deepest part of the path that exists in the file
+    let location = '';
+    for (let depth = path.length; depth >= 0 && !location; depth--) {
+      const node = doc.getIn(path.slice(0, depth), true) as { range?: [number, number, number] } | undefined;
+      if (node?.range) {
+        const { line, col } = lineCounter.linePos(node.range[0]);
+        location = ` (line ${line}, column ${col})`;
+      }
+    }
+    throw new Error(`${file}: ${formatPath(path)}${location} ${message}`);
+  };
+  
+  return validateSettings(doc.toJS(), fail);
+};
+
+// Combine the config file with env overrides; env vars win where both are set
+const applyEnvOverrides = (settings: BotSettings): BotSettings => {
+  const toRules = (usernames: typeof AUTHORIZED_USERS): AuthorizationRule[] =>
+    usernames.map(user => ({ type: 'user', value: user.username, roles: user.roles }));
+  
+  const names = REPOSITORIES.length > 0 ? REPOSITORIES : settings.repositories.map(repo => repo.name);
+  
+  return {
+    defaults: AUTHORIZED_USERS.length > 0 ?
+      { ...settings.defaults, authorizedUsers: toRules(AUTHORIZED_USERS) } :
+      settings.defaults,
+    repositories: names.map(name => {
+      const key = name.toLowerCase();
+      const fromFile = settings.repositories.find(repo => repo.name.toLowerCase() === key)?.settings || {};
+      return {
+        name,
+        settings: {
+          ...fromFile,
+          ...(REPO_AUTHORIZATION[key] && { authorizedUsers: REPO_AUTHORIZATION[key] }),
+          ...(REPO_ALLOWED_TOKENS[key] && { allowedTokens: REPO_ALLOWED_TOKENS[key] })
+        }
+      };
+    })
+  };
+};
+
+// Load the settings from the config file, if any, and the environment
+const loadSettings = (): BotSettings => {
+  const settings = applyEnvOverrides(
+    CONFIG_FILE ? readSettingsFile(CONFIG_FILE) : { defaults: BUILT_IN_DEFAULTS, repositories: [] }
+  );
+  
+  if (settings.repositories.length === 0) {
+    throw new Error(`No repositories to monitor; list them under repositories in ${CONFIG_FILE || 'CONFIG_FILE'} or in REPOSITORIES`);
+  }
+  return settings;
+};
+
+// Loaded on first use rather than on import, so an invalid config file is reported by the bot or CLI
+// that needs it, like an invalid env var
+let settings: BotSettings | undefined;
+
+const getSettings = (): BotSettings => settings ||= loadSettings();
+
+// Load the settings now rather than on first use, so the bot reports an invalid config file at startup
+export const initSettings = () => {
+  getSettings();
+};
+
+// Repositories found for each pattern entry, keyed by the pattern; kept when a refresh fails
+let discovered = new Map<string, string[]>();
+
+// Find the repository list entry a repository falls under: its own entry, else the first pattern that found it
+const findEntry = (repoFullName: string): BotSettings['repositories'][number] | undefined => {
+  const key = repoFullName.toLowerCase();
+  return getSettings().repositories.find(repo => repo.name.toLowerCase() === key) ||
+    getSettings().repositories.find(repo => discovered.get(repo.name)?.some(name => name.toLowerCase() === key));
+};
+
+// Get the monitored repositories as owner/repo, including those found through patterns
+export const getRepositories = (): string[] => {
+  const names = new Map<string, string>();
+  for (const { name } of getSettings().repositories) {
+    for (const repository of PATTERN.test(name) ? discovered.get(name) || [] : [name]) {
+      names.set(repository.toLowerCase(), names.get(repository.toLowerCase()) || repository);
+    }
+  }
+  return [...names.values()];
+};
+
+// Check if a repository is monitored
+export const isMonitoredRepository = (repoFullName: string): boolean => findEntry(repoFullName) !== undefined;
+
+// Resolve the owner/* and owner/topic:<topic> entries through GitHub search. Newly created
+// repositories are picked up on the next refresh; archived ones are left out.
+export const refreshRepositories = async (): Promise<void> => {
+  const patterns = getSettings().repositories.map(repo => repo.name).filter(name => PATTERN.test(name));
+  const next = new Map<string, string[]>();
+  
+  for (const pattern of patterns) {
+    const [, owner, topic] = pattern.match(PATTERN)!;
+    try {
+      next.set(pattern, await searchRepositories(`user:${owner}${topic ? ` topic:${topic}` : ''} archived:false`));
+    } catch (error) {
+      logger.error(`Error resolving repository pattern ${pattern}`, { error });
+      next.set(pattern, discovered.get(pattern) || []);
+    }
+  }
+  
+  const before = new Set(getRepositories().map(name => name.toLowerCase()));
+  discovered = next;
+  const added = getRepositories().filter(name => !before.has(name.toLowerCase()));
+  if (added.length > 0) {
+    logger.info(`Now monitoring ${added.join(', ')}`);
+  }
+};
+
+// Get a repository's bounty settings. Its authorized users add to the default ones; everything
+// else replaces the default.
+export const getRepoSettings = (repoFullName: string): RepoSettings => {
+  const { defaults } = getSettings();
+  const overrides = findEntry(repoFullName)?.settings || {};
+  
+  return {
+    ...defaults,
+    ...overrides,
+    authorizedUsers: [...defaults.authorizedUsers, ...(overrides.authorizedUsers || [])],
+    templates: { ...defaults.templates, ...overrides.templates }
+  };
+};
+
+// Fill in the {placeholders} of a task template
+export const renderTemplate = (template: string, values: Record<string, string>): string =>
+  template.replace(/\{(\w+)\}/g, (placeholder, name: string) => values[name] ?? placeholder);
+
+// Load the config file again, keeping the current settings if the new ones are invalid
+export const reloadSettings = (): boolean => {
+  try {
+    settings = loadSettings();
+  } catch (error) {
+    logger.error('Config file is invalid; keeping the previous settings', { error });
+    return false;
+  }
+  
+  const hash = crypto.createHash('sha256').update(fs.readFileSync(CONFIG_FILE)).digest('hex');
+  logger.info(`Reloaded ${CONFIG_FILE}`, { repositories: getRepositories().length });
+  recordAudit({ event: 'operator_action', outcome: 'config_reloaded', details: { file: CONFIG_FILE, sha256: hash } });
+  return true;
+};
+
+// Reload the config file whenever it changes. Polling the file's stats also catches editors and
+// deploy tools that replace the file rather than writing to it.
+export const watchSettings = () => {
+  if (!CONFIG_FILE) {
+    return;
+  }
+  
+  fs.watchFile(CONFIG_FILE, { interval: WATCH_INTERVAL_MS }, (current, previous) => {
+    if ((current.mtimeMs !== previous.mtimeMs || current.size !== previous.size) && reloadSettings()) {
+      refreshRepositories();
+    }
+  });
+};
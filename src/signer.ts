@@ -0,0 +1,199 @@
+import fs from 'fs';
+import http from 'http';
+import https from 'https';
+import crypto from 'crypto';
+import { Keypair, PublicKey, VersionedTransaction } from '@solana/web3.js';
+import * as bs58 from 'bs58';
+import { Signer } from './types';
+import {
+  SIGNER_TYPE,
+  SIGNER_KEYPAIR_PATH,
+  SIGNER_KEYSTORE_PATH,
+  SIGNER_KEYSTORE_PASSPHRASE,
+  SIGNER_KEYSTORE_PASSPHRASE_FILE,
+  SIGNER_URL,
+  SIGNER_AUTH_TOKEN,
+  WALLET_PRIVATE_KEY,
+  WALLET_PUBLIC_KEY
+} from './config';
+import { decryptKeystore, Keystore } from './keystore';
+import { logger } from './logger';
+
+const REMOTE_SIGNER_TIMEOUT_MS = 30000;
+
+// Characters of a base58 string, as used for Solana keys and signatures
+const BASE58_PATTERN = /^[1-9A-HJ-NP-Za-km-z]+$/;
+
+// DER prefix that turns a raw 32-byte ed25519 public key into an SPKI key Node can verify with
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+let signer: Signer | null = null;
+
+// Sign with a keypair held in memory
+const createKeypairSigner = (keypair: Keypair, description: string): Signer => ({
+  publicKey: keypair.publicKey,
+  description,
+  signTransaction: async (transaction: VersionedTransaction) => {
+    transaction.sign([keypair]);
+  }
+});
+
+// Load a Solana CLI keypair file: a JSON array of the 64 secret key bytes
+const loadKeypairFileSigner = (path: string): Signer => {
+  const secretKey = Uint8Array.from(JSON.parse(fs.readFileSync(path, 'utf8')));
+  return createKeypairSigner(Keypair.fromSecretKey(secretKey), `keypair file ${path}`);
+};
+
+// Unlock an encrypted keystore with its passphrase
+const loadKeystoreSigner = (path: string): Signer => {
+  const passphrase = SIGNER_KEYSTORE_PASSPHRASE_FILE ?
+    fs.readFileSync(SIGNER_KEYSTORE_PASSPHRASE_FILE, 'utf8').trim() :
+    SIGNER_KEYSTORE_PASSPHRASE;
+  
+  const keystore = JSON.parse(fs.readFileSync(path, 'utf8')) as Keystore;
+  const keypair = Keypair.fromSecretKey(decryptKeystore(keystore, passphrase));
+  
+  if (keypair.publicKey.toBase58() !== keystore.publicKey) {
+    throw new Error(`Keystore ${path} decrypted to ${keypair.publicKey.toBase58()}, not ${keystore.publicKey}`);
+  }
+  
+  return createKeypairSigner(keypair, `keystore ${path}`);
+};
+
+// Make a JSON request to the remote signer, over TCP or a Unix socket ("unix:/path/to.sock")
+const remoteRequest = (method: string, path: string, body?: unknown): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const isUnixSocket = SIGNER_URL.startsWith('unix:');
+    const url = isUnixSocket ? null : new URL(path, SIGNER_URL);
+    const payload = body === undefined ? undefined : JSON.stringify(body);
+    
+    const options: http.RequestOptions = {
+      method,
+      ...(isUnixSocket ? { socketPath: SIGNER_URL.slice('unix:'.length), path } : {}),
+      headers: {
+        'accept': 'application/json',
+        ...(payload ? { 'content-type': 'application/json' } : {}),
+        ...(SIGNER_AUTH_TOKEN ? { 'authorization': `Bearer ${SIGNER_AUTH_TOKEN}` } : {})
+      },
+      timeout: REMOTE_SIGNER_TIMEOUT_MS
+    };
+    
+    const onResponse = (res: http.IncomingMessage) => {
+      let data = '';
+      res.on('data', chunk => { data += chunk; });
+      res.on('end', () => {
+        if (!res.statusCode || res.statusCode >= 400) {
+          reject(new Error(`Remote signer returned ${res.statusCode}: ${data}`));
+          return;
+        }
+        try {
+          resolve(JSON.parse(data));
+        } catch (error) {
+          reject(new Error('Remote signer returned invalid JSON'));
+        }
+      });
+    };
+    
+    const req = url && url.protocol === 'https:' ?
+      https.request(url, options, onResponse) :
+      url ? http.request(url, options, onResponse) : http.request(options, onResponse);
+    
+    req.on('timeout', () => req.destroy(new Error('Remote signer timed out')));
+    req.on('error', reject);
+    if (payload) {
+      req.write(payload);
+    }
+    req.end();
+  });
+
+// Read a base58 field from a remote signer response, rejecting responses without one
+const getBase58Field = (response: unknown, field: string, path: string): string => {
+  const value = typeof response === 'object' && response !== null ? (response as Record<string, unknown>)[field] : undefined;
+  if (typeof value !== 'string' || !BASE58_PATTERN.test(value)) {
+    throw new Error(`Remote signer's ${path} response has no base58 ${field}`);
+  }
+  return value;
+};
+
+// Check an ed25519 signature over a message
+const verifySignature = (message: Uint8Array, signature: Uint8Array, publicKey: PublicKey): boolean =>
+  crypto.verify(
+    null,
+    message,
+    crypto.createPublicKey({
+      key: Buffer.concat([ED25519_SPKI_PREFIX, publicKey.toBuffer()]),
+      format: 'der',
+      type: 'spki'
+    }),
+    signature
+  );
+
+// Sign through an external signer that holds the key.
+// Protocol: GET /public-key → { publicKey: base58 }, POST /sign { transaction: base64 } → { signature: base58 }.
+// The signer must hold the configured wallet's key, so a swapped signer can't redirect funds.
+const loadRemoteSigner = async (): Promise<Signer> => {
+  const publicKeyBase58 = getBase58Field(await remoteRequest('GET', '/public-key'), 'publicKey', '/public-key');
+  if (publicKeyBase58 !== WALLET_PUBLIC_KEY) {
+    throw new Error(`Remote signer ${SIGNER_URL} holds key ${publicKeyBase58}, not the wallet ${WALLET_PUBLIC_KEY}`);
+  }
+  const publicKey = new PublicKey(publicKeyBase58);
+  
+  return {
+    publicKey,
+    description: `remote signer ${SIGNER_URL}`,
+    signTransaction: async (transaction: VersionedTransaction) => {
+      const response = await remoteRequest('POST', '/sign', {
+        transaction: Buffer.from(transaction.serialize()).toString('base64')
+      });
+      
+      // Never trust the signer blindly: the signature must cover exactly this message
+      const signatureBytes = bs58.decode(getBase58Field(response, 'signature', '/sign'));
+      if (signatureBytes.length !== 64 || !verifySignature(transaction.message.serialize(), signatureBytes, publicKey)) {
+        throw new Error('Remote signer returned an invalid signature');
+      }
+      
+      transaction.addSignature(publicKey, signatureBytes);
+    }
+  };
+};
+
+// Set up the configured signer; call once at startup before anything signs
+export const initSigner = async (): Promise<Signer> => {
+  switch (SIGNER_TYPE) {
+    case 'env':
+      signer = createKeypairSigner(Keypair.fromSecretKey(bs58.decode(WALLET_PRIVATE_KEY)), 'WALLET_PRIVATE_KEY');
+      break;
+    case 'keypair-file':
+      signer = loadKeypairFileSigner(SIGNER_KEYPAIR_PATH);
+      break;
+    case 'keystore':
+      signer = loadKeystoreSigner(SIGNER_KEYSTORE_PATH);
+      break;
+    case 'remote':
+      signer = await loadRemoteSigner();
+      break;
+    default:
+      throw new Error(`Unknown SIGNER_TYPE '${SIGNER_TYPE}'`);
+  }
+  
+  // WALLET_PUBLIC_KEY is optional for local signers, but a configured one must match the signer
+  if (WALLET_PUBLIC_KEY && WALLET_PUBLIC_KEY !== signer.publicKey.toBase58()) {
+    throw new Error(
+      `WALLET_PUBLIC_KEY ${WALLET_PUBLIC_KEY} does not match the ${signer.description} key ${signer.publicKey.toBase58()}`
+    );
+  }
+  
+  logger.info(`Signing with ${signer.description} (${signer.publicKey.toBase58()})`);
+  return signer;
+};
+
+// Get the initialized signer
+export const getSigner = (): Signer => {
+  if (!signer) {
+    throw new Error('Signer is not initialized');
+  }
+  return signer;
+};
+
+// Get the bot wallet's public key, derived from the signer
+export const getWalletPublicKey = (): string => getSigner().publicKey.toBase58();
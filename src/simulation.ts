@@ -0,0 +1,89 @@
+import { LAMPORTS_PER_SOL, PublicKey, VersionedTransaction } from '@solana/web3.js';
+import * as bs58 from 'bs58';
+import { SimulationReport } from './types';
+import { connection } from './solana';
+
+// Token programs whose accounts store a u64 amount at byte 64
+const TOKEN_PROGRAM_IDS = [
+  'TokenkegQfeZyiNwAJbNbGuPTdW4F7rtQdVT5ve8EYBm',
+  'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb'
+];
+
+// Signatures of transactions that simulated successfully, standing in for confirmed ones in dry-run mode
+const simulatedSignatures = new Map<string, SimulationReport>();
+
+// Read the raw token amount of an SPL token account, if the account is one
+const readTokenAmount = (owner: string, data: Buffer): { mint: string; amount: bigint } | undefined => {
+  if (!TOKEN_PROGRAM_IDS.includes(owner) || data.length < 72) {
+    return undefined;
+  }
+  
+  return {
+    mint: new PublicKey(data.subarray(0, 32)).toBase58(),
+    amount: data.readBigUInt64LE(64)
+  };
+};
+
+// Simulate a signed transaction instead of sending it, reporting compute units, logs and balance changes.
+// Only the accounts in the message itself are reported; accounts loaded from lookup tables are not.
+export const simulateSignedTransaction = async (transaction: VersionedTransaction): Promise<SimulationReport> => {
+  const { message } = transaction;
+  const writableKeys = message.staticAccountKeys.filter((_, index) => message.isAccountWritable(index));
+  const addresses = writableKeys.map(key => key.toBase58());
+  
+  const preAccounts = await connection.getMultipleAccountsInfo(writableKeys);
+  const { value: simulation } = await connection.simulateTransaction(transaction, {
+    sigVerify: true,
+    accounts: { encoding: 'base64', addresses }
+  });
+  
+  const balanceChanges: SimulationReport['balanceChanges'] = [];
+  addresses.forEach((address, index) => {
+    const pre = preAccounts[index];
+    const post = simulation.accounts?.[index];
+    
+    const lamportChange = (post?.lamports ?? 0) - (pre?.lamports ?? 0);
+    if (lamportChange !== 0) {
+      balanceChanges.push({ account: address, asset: 'SOL', change: `${lamportChange / LAMPORTS_PER_SOL}` });
+    }
+    
+    const preToken = pre ? readTokenAmount(pre.owner.toBase58(), pre.data) : undefined;
+    const postToken = post ? readTokenAmount(post.owner, Buffer.from(post.data[0], 'base64')) : undefined;
+    const mint = postToken?.mint || preToken?.mint;
+    const tokenChange = (postToken?.amount ?? BigInt(0)) - (preToken?.amount ?? BigInt(0));
+    if (mint && tokenChange !== BigInt(0)) {
+      balanceChanges.push({ account: address, asset: mint, change: `${tokenChange} (raw units)` });
+    }
+  });
+  
+  const report: SimulationReport = {
+    signature: bs58.encode(transaction.signatures[0]),
+    success: simulation.err === null,
+    error: simulation.err === null ? undefined : JSON.stringify(simulation.err),
+    unitsConsumed: simulation.unitsConsumed,
+    logs: simulation.logs || [],
+    balanceChanges
+  };
+  
+  if (report.success) {
+    simulatedSignatures.set(report.signature, report);
+  }
+  
+  return report;
+};
+
+// Get the report of a successful dry-run simulation by its would-be signature
+export const getSimulationReport = (signature: string): SimulationReport | undefined =>
+  simulatedSignatures.get(signature);
+
+// Format a simulation report for logs and issue comments
+export const formatSimulationReport = (report: SimulationReport): string => {
+  const changes = report.balanceChanges.length > 0 ?
+    report.balanceChanges.map(change => `- ${change.account}: ${change.change} ${change.asset}`).join('\n') :
+    '- none';
+  
+  return `Simulation ${report.success ? 'succeeded' : `failed: ${report.error}`}\n` +
+         `Compute units: ${report.unitsConsumed ?? 'unknown'}\n` +
+         `Balance changes:\n${changes}\n` +
+         `Logs:\n${report.logs.map(log => `    ${log}`).join('\n')}`;
+};
@@ -0,0 +1,5 @@
+import { Connection } from '@solana/web3.js';
+import { SOLANA_RPC_URL } from './config';
+
+// Create a Solana connection with higher commitment level
+export const connection = new Connection(SOLANA_RPC_URL, 'confirmed');
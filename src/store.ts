@@ -0,0 +1,343 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  BountyRecord,
+  CommandRecord,
+  CommandSource,
+  GitHubComment,
+  LabelCursor,
+  LabelEvent,
+  PendingTransaction,
+  ProcessedCommentRecord,
+  RepoCursor
+} from './types';
+import { STATE_FILE, STATE_RETENTION_DAYS } from './config';
+import { getRepoInfoFromUrl } from './github';
+import { logger } from './logger';
+
+// A single line in the append-only state file. The last line written for a
+// kind/key pair wins; a line with `deleted: true` removes the entry.
+interface StoredEntry<T = unknown> {
+  kind: string;
+  key: string;
+  value?: T;
+  deleted?: boolean;
+  updatedAt: string;
+}
+
+// Kinds that are dropped once they are older than the retention period
+const EXPIRING_KINDS = ['comment', 'label', 'command', 'approval', 'transaction'];
+
+// Kinds keyed by the command they belong to, with its origin (`issue:123`)
+const COMMAND_KINDS = ['comment', 'label', 'command', 'spend'];
+
+// In-memory view of the state file
+const entries = new Map<string, StoredEntry>();
+
+const entryId = (kind: string, key: string): string => `${kind}:${key}`;
+
+// Key a command's records by its origin and ID. Comments, issues and label events are numbered
+// separately on GitHub and CLI commands number their own, so an ID alone can belong to two commands.
+export const commandKey = ({ commentId, origin }: CommandSource): string => `${origin || 'comment'}:${commentId}`;
+
+// Key of the processed-comment record of a comment or issue body
+const commentKey = (comment: GitHubComment): string =>
+  commandKey({ commentId: comment.id, origin: comment.isIssueBody ? 'issue' : 'comment' });
+
+// Key an entry written before command keys carried their origin. A command record knows its
+// origin; other entries take it from the command with the same ID loaded so far.
+const migrateKey = (entry: StoredEntry): string => {
+  if (!COMMAND_KINDS.includes(entry.kind) || entry.key.includes(':')) {
+    return entry.key;
+  }
+  
+  const commentId = Number(entry.key);
+  if (entry.kind === 'label') {
+    return commandKey({ commentId, origin: 'label' });
+  }
+  
+  const command = entry.kind === 'command' && entry.value ?
+    entry.value as CommandRecord :
+    Array.from(entries.values())
+      .map(stored => stored.kind === 'command' ? stored.value as CommandRecord : undefined)
+      .find(record => record?.commentId === commentId);
+  if (entry.kind === 'comment') {
+    return commandKey({ commentId, origin: command?.origin === 'issue' ? 'issue' : 'comment' });
+  }
+  return commandKey({ commentId, origin: command?.origin });
+};
+
+// Load the state file into memory, tolerating a truncated last line after a crash
+const loadStore = () => {
+  if (!fs.existsSync(STATE_FILE)) {
+    fs.mkdirSync(path.dirname(STATE_FILE), { recursive: true });
+    return;
+  }
+  
+  const lines = fs.readFileSync(STATE_FILE, 'utf8').split('\n');
+  for (const [index, line] of lines.entries()) {
+    if (!line.trim()) {
+      continue;
+    }
+    
+    try {
+      const parsed = JSON.parse(line) as StoredEntry;
+      const entry = { ...parsed, key: migrateKey(parsed) };
+      if (entry.deleted) {
+        entries.delete(entryId(entry.kind, entry.key));
+      } else {
+        entries.set(entryId(entry.kind, entry.key), entry);
+      }
+    } catch (error) {
+      logger.warn(`Skipping unreadable line ${index + 1} in ${STATE_FILE}`);
+    }
+  }
+  
+  logger.info(`Loaded ${entries.size} state entries from ${STATE_FILE}`);
+};
+
+// Marks the one process that may write the state file and the audit log, holding its pid
+const LOCK_FILE = `${STATE_FILE}.lock`;
+
+// Whether a process is still running; signal 0 only checks that it exists
+const isProcessAlive = (pid: number): boolean => {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+};
+
+// Release the state lock if this process holds it
+export const releaseStateLock = () => {
+  try {
+    if (Number(fs.readFileSync(LOCK_FILE, 'utf8').split('\n')[0]) === process.pid) {
+      fs.rmSync(LOCK_FILE, { force: true });
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+};
+
+// Take the state lock for this process, so two processes never write the state file and audit log
+// at once: compaction would drop the other's entries and the audit chain would fork. A lock left
+// by a process that died is taken over. Throws if a running process holds it. The store is read
+// again once the lock is held, so it includes everything the previous holder wrote.
+export const acquireStateLock = (holder: string) => {
+  for (;;) {
+    try {
+      fs.writeFileSync(LOCK_FILE, `${process.pid}\n${holder}\n`, { flag: 'wx' });
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+  
+    let lines: string[];
+    try {
+      lines = fs.readFileSync(LOCK_FILE, 'utf8').split('\n');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      continue;
+    }
+  
+    const pid = Number(lines[0]);
+    if (Number.isInteger(pid) && pid > 0 && isProcessAlive(pid)) {
+      throw new Error(`${STATE_FILE} is in use by ${lines[1] || 'another process'} (pid ${pid}); stop it first`);
+    }
+    logger.warn(`Taking over the state lock left by pid ${lines[0]}, which is no longer running`);
+    fs.rmSync(LOCK_FILE, { force: true });
+  }
+  
+  process.on('exit', releaseStateLock);
+  entries.clear();
+  loadStore();
+};
+
+// Append an entry to the state file synchronously, so it is on disk before we act on it
+const appendEntry = (entry: StoredEntry) => {
+  fs.appendFileSync(STATE_FILE, `${JSON.stringify(entry)}\n`);
+};
+
+// Get a stored value
+export const getEntry = <T>(kind: string, key: string): T | undefined => {
+  const entry = entries.get(entryId(kind, key));
+  return entry ? entry.value as T : undefined;
+};
+
+// Store a value, replacing any previous value for the same key
+export const putEntry = <T>(kind: string, key: string, value: T) => {
+  const entry: StoredEntry<T> = { kind, key, value, updatedAt: new Date().toISOString() };
+  appendEntry(entry);
+  entries.set(entryId(kind, key), entry);
+};
+
+// Remove a stored value
+export const deleteEntry = (kind: string, key: string) => {
+  if (!entries.has(entryId(kind, key))) {
+    return;
+  }
+  
+  appendEntry({ kind, key, deleted: true, updatedAt: new Date().toISOString() });
+  entries.delete(entryId(kind, key));
+};
+
+// List all stored values of a kind
+export const listEntries = <T>(kind: string): T[] =>
+  Array.from(entries.values())
+    .filter(entry => entry.kind === kind)
+    .map(entry => entry.value as T);
+
+// Check if this version of a comment has already been handled; an edit makes it new again
+export const isCommentProcessed = (comment: GitHubComment): boolean => {
+  const record = getEntry<ProcessedCommentRecord>('comment', commentKey(comment));
+  return record !== undefined && record.updatedAt >= (comment.updated_at || comment.created_at);
+};
+
+// Record that a comment has been handled
+export const markCommentProcessed = (comment: GitHubComment) => {
+  const { owner, repo } = getRepoInfoFromUrl(comment.issue_url);
+  putEntry<ProcessedCommentRecord>('comment', commentKey(comment), {
+    commentId: comment.id,
+    repository: `${owner}/${repo}`.toLowerCase(),
+    createdAt: comment.created_at,
+    updatedAt: comment.updated_at || comment.created_at,
+    processedAt: new Date().toISOString()
+  });
+};
+
+// Forget that a comment has been handled, so it is handled again
+export const unmarkCommentProcessed = (comment: GitHubComment) => {
+  deleteEntry('comment', commentKey(comment));
+};
+
+// Get the creation time of the newest processed comment in a repository, if any
+export const getLastProcessedCommentTime = (repoFullName: string): string | undefined =>
+  listEntries<ProcessedCommentRecord>('comment')
+    .filter(record => record.repository === repoFullName.toLowerCase())
+    .map(record => record.createdAt)
+    .sort()
+    .pop();
+
+// Get the polling cursor of a repository
+export const getRepoCursor = (repoFullName: string): RepoCursor | undefined =>
+  getEntry<RepoCursor>('cursor', repoFullName.toLowerCase());
+
+// Save the polling cursor of a repository
+export const saveRepoCursor = (repoFullName: string, cursor: RepoCursor) => {
+  putEntry('cursor', repoFullName.toLowerCase(), cursor);
+};
+
+// Check if a label event has already been handled
+export const isLabelEventProcessed = (event: LabelEvent): boolean =>
+  getEntry<LabelEvent>('label', commandKey({ commentId: event.id, origin: 'label' })) !== undefined;
+
+// Record that a label event has been handled
+export const markLabelEventProcessed = (event: LabelEvent) => {
+  putEntry('label', commandKey({ commentId: event.id, origin: 'label' }), { ...event, processedAt: new Date().toISOString() });
+};
+
+// Forget that a label event has been handled, so it is handled again
+export const unmarkLabelEventProcessed = (eventId: number) => {
+  deleteEntry('label', commandKey({ commentId: eventId, origin: 'label' }));
+};
+
+// Get the label event polling cursor of a repository
+export const getLabelCursor = (repoFullName: string): LabelCursor | undefined =>
+  getEntry<LabelCursor>('label-cursor', repoFullName.toLowerCase());
+
+// Save the label event polling cursor of a repository
+export const saveLabelCursor = (repoFullName: string, cursor: LabelCursor) => {
+  putEntry('label-cursor', repoFullName.toLowerCase(), cursor);
+};
+
+// Get the record of a bounty command by its origin and the ID of the comment, issue, label event or
+// CLI run that issued it
+export const getCommandRecord = (source: CommandSource): CommandRecord | undefined =>
+  getEntry<CommandRecord>('command', commandKey(source));
+
+// Find a command by its key (`issue:123`) or by a bare ID when only one command has it; throws if
+// the bare ID belongs to commands of several origins
+export const findCommandRecord = (id: string): CommandRecord | undefined => {
+  if (id.includes(':')) {
+    return getEntry<CommandRecord>('command', id);
+  }
+  
+  const matches = listEntries<CommandRecord>('command').filter(record => record.commentId === Number(id));
+  if (matches.length > 1) {
+    throw new Error(`More than one command has ID ${id}; pass one of ${matches.map(commandKey).join(', ')}`);
+  }
+  return matches[0];
+};
+
+// Create or update the record of a bounty command
+export const saveCommandRecord = (
+  source: CommandSource,
+  update: Partial<CommandRecord> & Pick<CommandRecord, 'status'>
+): CommandRecord => {
+  const existing = getCommandRecord(source);
+  const now = new Date().toISOString();
+  const record = {
+    createdAt: now,
+    ...existing,
+    ...update,
+    commentId: source.commentId,
+    origin: source.origin,
+    updatedAt: now
+  } as CommandRecord;
+  
+  putEntry('command', commandKey(source), record);
+  return record;
+};
+
+// List the bounty commands on an issue, oldest first
+export const getCommandRecordsForIssue = (issueUrl: string): CommandRecord[] =>
+  listEntries<CommandRecord>('command')
+    .filter(record => record.issueUrl === issueUrl)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+// Get a bounty by its Gib.work task ID
+export const getBountyRecord = (taskId: string): BountyRecord | undefined =>
+  getEntry<BountyRecord>('bounty', taskId);
+
+// List the bounties created on an issue, oldest first
+export const getBountyRecordsForIssue = (issueUrl: string): BountyRecord[] =>
+  listEntries<BountyRecord>('bounty')
+    .filter(record => record.issueUrl === issueUrl)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+// Create or update a bounty
+export const saveBountyRecord = (record: BountyRecord) => {
+  putEntry('bounty', record.taskId, { ...record, updatedAt: new Date().toISOString() });
+};
+
+// List the signed transactions that have not settled yet, including those still being sent
+export const getPendingTransactions = (): PendingTransaction[] =>
+  listEntries<PendingTransaction>('transaction').filter(record => record.status === 'pending' || record.status === 'sending');
+
+// Create or update a tracked transaction
+export const saveTransactionRecord = (record: PendingTransaction) => {
+  putEntry('transaction', record.signature, record);
+};
+
+// Drop expired entries and rewrite the state file with only the live entries
+export const compactStore = () => {
+  const cutoff = Date.now() - STATE_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  const initialSize = entries.size;
+  
+  for (const [id, entry] of entries) {
+    if (EXPIRING_KINDS.includes(entry.kind) && new Date(entry.updatedAt).getTime() < cutoff) {
+      entries.delete(id);
+    }
+  }
+  
+  // Write to a temporary file and rename it, so a crash never leaves a half-written store
+  const tempFile = `${STATE_FILE}.tmp`;
+  const contents = Array.from(entries.values()).map(entry => `${JSON.stringify(entry)}\n`).join('');
+  fs.writeFileSync(tempFile, contents);
+  fs.renameSync(tempFile, STATE_FILE);
+  
+  logger.info(`State compaction complete. Kept ${entries.size} of ${initialSize} entries.`);
+};
+
+loadStore();
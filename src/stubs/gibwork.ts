@@ -0,0 +1,144 @@
+// A stand-in for the Gib.work API, for dry runs against a local solana-test-validator.
+//
+// Run it with `npm run stub:gibwork`, then start the bot with
+//   GIBWORK_API_URL=http://localhost:4000 SOLANA_RPC_URL=http://127.0.0.1:8899 DRY_RUN=true
+//
+// Instead of escrowing tokens, each "task" transaction moves lamports between the payer and
+// a throwaway escrow account, so simulation exercises signing, fees and balance reporting.
+import http from 'http';
+import crypto from 'crypto';
+import {
+  Connection,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+  TransactionMessage,
+  VersionedTransaction
+} from '@solana/web3.js';
+import { BountyRequestPayload } from '../types';
+
+const PORT = parseInt(process.env.GIBWORK_STUB_PORT || '4000', 10);
+const connection = new Connection(process.env.SOLANA_RPC_URL || 'http://127.0.0.1:8899', 'confirmed');
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+// Holds the "escrowed" lamports for every task
+const escrow = Keypair.generate();
+
+const tasks = new Map<string, { id: string; title: string; status: string; payer: string; lamports: number }>();
+
+// Responses to POSTs by idempotency key, replayed when the bot retries a request
+const responses = new Map<string, { status: number; body: unknown }>();
+
+// Build a transfer transaction for the payer to sign
+const buildTransfer = async (from: PublicKey, to: PublicKey, lamports: number, feePayer: PublicKey): Promise<string> => {
+  const { blockhash } = await connection.getLatestBlockhash('confirmed');
+  const message = new TransactionMessage({
+    payerKey: feePayer,
+    recentBlockhash: blockhash,
+    instructions: [SystemProgram.transfer({ fromPubkey: from, toPubkey: to, lamports })]
+  }).compileToV0Message();
+  
+  const transaction = new VersionedTransaction(message);
+  
+  // Refunds move lamports out of escrow, so the stub signs for it
+  if (from.equals(escrow.publicKey)) {
+    transaction.sign([escrow]);
+  }
+  
+  return Buffer.from(transaction.serialize()).toString('base64');
+};
+
+const readJson = <T>(req: http.IncomingMessage): Promise<T> =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      try {
+        resolve((body ? JSON.parse(body) : {}) as T);
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+
+const send = (res: http.ServerResponse, status: number, body: unknown) => {
+  const idempotencyKey = res.req.headers['idempotency-key'];
+  if (res.req.method === 'POST' && typeof idempotencyKey === 'string' && status < 500) {
+    responses.set(idempotencyKey, { status, body });
+  }
+  
+  res.writeHead(status, { 'content-type': 'application/json' }).end(JSON.stringify(body));
+};
+
+const server = http.createServer(async (req, res) => {
+  const path = (req.url || '/').split('?')[0];
+  console.log(`${req.method} ${path}`);
+  
+  const idempotencyKey = req.headers['idempotency-key'];
+  const previous = typeof idempotencyKey === 'string' && responses.get(idempotencyKey);
+  if (req.method === 'POST' && previous) {
+    console.log(`Replaying response for idempotency key ${idempotencyKey}`);
+    res.writeHead(previous.status, { 'content-type': 'application/json' }).end(JSON.stringify(previous.body));
+    return;
+  }
+  
+  try {
+    if (req.method === 'POST' && path === '/tasks/public/transaction') {
+      const payload = await readJson<BountyRequestPayload>(req);
+      const payer = new PublicKey(payload.payer);
+      
+      // Real amounts for SOL; a rent-exempt token amount for everything else
+      const rentExempt = await connection.getMinimumBalanceForRentExemption(0);
+      const lamports = payload.token?.mintAddress === SOL_MINT ?
+        Math.max(Math.round(payload.token.amount * LAMPORTS_PER_SOL), rentExempt) :
+        rentExempt;
+      
+      const id = crypto.randomUUID();
+      tasks.set(id, { id, title: payload.title, status: 'open', payer: payload.payer, lamports });
+      
+      send(res, 200, { taskId: id, serializedTransaction: await buildTransfer(payer, escrow.publicKey, lamports, payer) });
+      return;
+    }
+    
+    const cancelMatch = path.match(/^\/tasks\/public\/([^/]+)\/cancel$/);
+    if (req.method === 'POST' && cancelMatch) {
+      const task = tasks.get(cancelMatch[1]);
+      if (!task) {
+        send(res, 404, { message: 'Task not found' });
+        return;
+      }
+      
+      task.status = 'cancelled';
+      const payer = new PublicKey(task.payer);
+      
+      // Simulated tasks never actually funded the escrow, so refund no more than it holds
+      const lamports = Math.min(task.lamports, await connection.getBalance(escrow.publicKey));
+      send(res, 200, { taskId: task.id, serializedTransaction: await buildTransfer(escrow.publicKey, payer, lamports, payer) });
+      return;
+    }
+    
+    const taskMatch = path.match(/^\/tasks\/([^/]+)$/);
+    if (req.method === 'GET' && taskMatch) {
+      const task = tasks.get(taskMatch[1]);
+      if (!task) {
+        send(res, 404, { message: 'Task not found' });
+        return;
+      }
+      
+      send(res, 200, { id: task.id, title: task.title, status: task.status });
+      return;
+    }
+    
+    send(res, 404, { message: 'Not found' });
+  } catch (error) {
+    console.error('Stub error:', error);
+    send(res, 500, { message: (error as Error).message });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Gib.work stub listening on port ${PORT}, escrow ${escrow.publicKey.toBase58()}`);
+});
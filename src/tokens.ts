@@ -0,0 +1,122 @@
+import { PublicKey } from '@solana/web3.js';
+import { TokenInfo } from './types';
+import { getRepoSettings } from './settings';
+import { connection } from './solana';
+
+// Tokens that can be referred to by symbol in /bounty commands
+const KNOWN_TOKENS: TokenInfo[] = [
+  {
+    symbol: 'SOL',
+    name: 'Solana',
+    mintAddress: 'So11111111111111111111111111111111111111112',
+    decimals: 9
+  },
+  {
+    symbol: 'USDC',
+    name: 'USD Coin',
+    mintAddress: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+    decimals: 6
+  },
+  {
+    symbol: 'USDT',
+    name: 'Tether USD',
+    mintAddress: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB',
+    decimals: 6
+  },
+  {
+    symbol: 'BONK',
+    name: 'Bonk',
+    mintAddress: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263',
+    decimals: 5
+  }
+];
+
+// Metadata of mints resolved on-chain, so each is only looked up once
+const resolvedMints = new Map<string, TokenInfo>();
+
+// Find a known token by symbol or mint address
+export const findKnownToken = (symbolOrMint: string): TokenInfo | undefined =>
+  KNOWN_TOKENS.find(token =>
+    token.symbol.toLowerCase() === symbolOrMint.toLowerCase() ||
+    token.mintAddress === symbolOrMint
+  );
+
+// Check if a string looks like a base58 mint address rather than a symbol
+const isMintAddress = (value: string): boolean => /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(value);
+
+// Look up an unknown mint on-chain to get its decimals
+const resolveMint = async (mintAddress: string): Promise<TokenInfo> => {
+  const cached = resolvedMints.get(mintAddress);
+  if (cached) {
+    return cached;
+  }
+  
+  const { value } = await connection.getParsedAccountInfo(new PublicKey(mintAddress));
+  const data = value?.data;
+  
+  // Only SPL token (and Token-2022) mint accounts parse to a 'mint' type
+  if (!data || Buffer.isBuffer(data) || data.parsed?.type !== 'mint') {
+    throw new Error(
+      `\`${mintAddress}\` is not a token mint. ` +
+      `Use a token symbol (${KNOWN_TOKENS.map(token => token.symbol).join(', ')}) or a valid mint address.`
+    );
+  }
+  
+  const token: TokenInfo = {
+    symbol: `${mintAddress.slice(0, 4)}…${mintAddress.slice(-4)}`,
+    name: mintAddress,
+    mintAddress,
+    decimals: data.parsed.info.decimals
+  };
+  resolvedMints.set(mintAddress, token);
+  return token;
+};
+
+// Get the tokens allowed in a repository, or undefined if any token is allowed
+export const getAllowedTokens = (repoFullName: string): string[] | undefined =>
+  getRepoSettings(repoFullName).allowedTokens;
+
+// Resolve a token symbol or mint address from a command, enforcing the repository allow-list
+export const resolveToken = async (symbolOrMint: string, repoFullName: string): Promise<TokenInfo> => {
+  const allowed = getAllowedTokens(repoFullName);
+  
+  let token = findKnownToken(symbolOrMint);
+  if (!token) {
+    if (!isMintAddress(symbolOrMint)) {
+      throw new Error(
+        `Unknown token \`${symbolOrMint}\`. ` +
+        (allowed ?
+          `Allowed tokens in ${repoFullName}: ${allowed.join(', ')}.` :
+          `Use one of ${KNOWN_TOKENS.map(known => known.symbol).join(', ')} or a token mint address.`)
+      );
+    }
+    
+    // Don't spend an RPC call on a mint the repository won't accept anyway
+    if (allowed && !allowed.includes(symbolOrMint)) {
+      throw new Error(`Token \`${symbolOrMint}\` is not allowed in ${repoFullName}. Allowed tokens: ${allowed.join(', ')}.`);
+    }
+    
+    token = await resolveMint(symbolOrMint);
+  }
+  
+  if (allowed && !allowed.some(entry => entry.toUpperCase() === token!.symbol || entry === token!.mintAddress)) {
+    throw new Error(`${token.symbol} is not allowed in ${repoFullName}. Allowed tokens: ${allowed.join(', ')}.`);
+  }
+  
+  return token;
+};
+
+// Check that an amount is positive and has no more decimal places than the token supports
+export const validateTokenAmount = (amount: number, token: TokenInfo) => {
+  if (!(amount > 0)) {
+    throw new Error('Bounty amount must be greater than zero.');
+  }
+  
+  // Rounding to the token's decimals changes any finer amount, including ones String() writes as 1e-7
+  if (Number(amount.toFixed(token.decimals)) !== amount) {
+    throw new Error(`${token.symbol} supports at most ${token.decimals} decimal places.`);
+  }
+};
+
+// Format an amount with its token symbol for display
+export const formatTokenAmount = (amount: number, token: TokenInfo): string => `${amount} ${token.symbol}`;
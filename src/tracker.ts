@@ -0,0 +1,322 @@
+import { BountyRecord, PendingTransaction, SentTransaction } from './types';
+import { DRY_RUN } from './config';
+import { commentOnIssueUrl, getIssueInfoFromUrl, updateComment } from './github';
+import { connection } from './solana';
+import { markBudgetSpent, releaseBudget } from './budgets';
+import { formatSimulationReport, getSimulationReport } from './simulation';
+import { bountyMarker, closedMarker } from './guard';
+import { bountiesCreated, confirmationSeconds, failures } from './metrics';
+import {
+  getCommandRecord,
+  getEntry,
+  getPendingTransactions,
+  saveBountyRecord,
+  saveCommandRecord,
+  saveTransactionRecord
+} from './store';
+import { showCommandState, updateFundedLabel } from './indicators';
+import { logger, recordAudit, withLogContext } from './logger';
+
+// Whether a check of the pending transactions is already running
+let isChecking = false;
+
+// Transactions this process is broadcasting right now; any other 'sending' record was left by a crash
+const sending = new Set<string>();
+
+// Build the links section shared by the tracker's comments
+const formatLinks = (record: PendingTransaction): string => {
+  const visibilityNote = record.bounty.isPublic ? 'Public bounty' : 'Private bounty, only accessible via this link';
+  const transactionLabel = record.kind === 'create' ? 'Transaction' : 'Refund transaction';
+  
+  return `🔗 Links:\n` +
+         `- Bounty: [View on Gib.work](https://app.gib.work/tasks/${record.bounty.taskId})` +
+         (record.kind === 'create' ? ` (${visibilityNote})` : '') + `\n` +
+         `- ${transactionLabel}: [View on Solana Explorer](https://explorer.solana.com/tx/${record.signature})`;
+};
+
+// Render the status comment of a tracked transaction
+const formatStatusComment = (record: PendingTransaction): string => {
+  const { bounty } = record;
+  const amount = `${bounty.amount} ${bounty.tokenSymbol}`;
+  
+  if (record.kind === 'cancel') {
+    switch (record.status) {
+      case 'sending':
+      case 'pending':
+        return `⏳ Cancelling bounty ${bounty.taskId} for @${record.requestedBy}.\n\n` +
+               `The refund of ${amount} has been submitted and is waiting for confirmation. ` +
+               `This comment will be updated once it settles.\n\n` +
+               formatLinks(record);
+      case 'confirmed':
+        return `🛑 Bounty cancelled by @${record.requestedBy}.\n\n` +
+               `${amount} has been refunded to the bot wallet.\n\n` +
+               formatLinks(record) + `\n` +
+               closedMarker(bounty.taskId);
+      case 'failed':
+        return `❌ Could not cancel bounty ${bounty.taskId}: the refund transaction failed (${record.error}).\n\n` +
+               `The bounty is still active.\n\n` +
+               formatLinks(record);
+      case 'expired':
+        return `❌ Could not cancel bounty ${bounty.taskId}: the refund transaction expired before it was confirmed.\n\n` +
+               `The bounty is still active; run \`/bounty cancel\` again to retry.`;
+    }
+  }
+  
+  const deadlineNote = bounty.deadline ? `Deadline: ${bounty.deadline.slice(0, 10)}\n` : '';
+  const parentNote = bounty.parentTaskId ?
+    `Top-up of: [${bounty.parentTaskId}](https://app.gib.work/tasks/${bounty.parentTaskId})\n` :
+    '';
+  
+  switch (record.status) {
+    case 'sending':
+    case 'pending':
+      return `⏳ ${bounty.parentTaskId ? 'Top-up' : 'Bounty'} transaction submitted.\n\n` +
+             `Bounty ID: ${bounty.taskId}\n` +
+             parentNote +
+             `Amount: ${amount}\n` +
+             deadlineNote +
+             `Waiting for the transaction to confirm. This comment will be updated once it settles.\n\n` +
+             formatLinks(record);
+    case 'confirmed': {
+      const report = DRY_RUN ? getSimulationReport(record.signature) : undefined;
+      return `✅ ${bounty.parentTaskId ? 'Bounty topped up' : 'Bounty created'} successfully!\n\n` +
+             `Bounty ID: ${bounty.taskId}\n` +
+             parentNote +
+             `Amount: ${amount}\n` +
+             deadlineNote +
+             `Transaction confirmed.\n\n` +
+             formatLinks(record) + `\n\n` +
+             `Thank you for contributing to the project!` +
+             (report ? `\n\n<details><summary>Simulation</summary>\n\n\`\`\`\n${formatSimulationReport(report)}\n\`\`\`\n</details>` : '') +
+             (bounty.parentTaskId ? '' : `\n${bountyMarker(bounty.taskId)}`);
+    }
+    case 'failed':
+      return `❌ Issue with bounty creation: the transaction failed (${record.error}).\n\n` +
+             `The bounty was not funded.\n\n` +
+             formatLinks(record);
+    case 'expired':
+      return `❌ Issue with bounty creation: the transaction expired before it was confirmed.\n\n` +
+             `No funds were moved. Post the command again in a new comment to retry.`;
+  }
+};
+
+// Post or update the status comment of a tracked transaction
+const publishStatus = async (record: PendingTransaction): Promise<PendingTransaction> => {
+  const body = formatStatusComment(record);
+  
+  try {
+    if (record.statusCommentId) {
+      const { owner, repo } = getIssueInfoFromUrl(record.bounty.issueUrl);
+      await updateComment(owner, repo, record.statusCommentId, body);
+      return record;
+    }
+  
+    const comment = await commentOnIssueUrl(record.bounty.issueUrl, body);
+    return comment ? { ...record, statusCommentId: comment.id } : record;
+  } catch (error) {
+    logger.error(`Error publishing status of transaction ${record.signature}`, { error });
+    return record;
+  }
+};
+
+// Save a signed transaction before it is broadcast, so if we crash while sending it the tracker can
+// still rebroadcast it or see it confirm
+export const recordSignedTransaction = (
+  kind: PendingTransaction['kind'],
+  sent: SentTransaction,
+  bounty: BountyRecord,
+  requestedBy: string
+) => {
+  sending.add(sent.signature);
+  saveTransactionRecord({ ...sent, kind, status: 'sending', bounty, requestedBy, submittedAt: new Date().toISOString() });
+};
+
+// Mark a signed transaction failed when it was rejected before being broadcast, so it is never resumed
+export const discardSignedTransaction = (signature: string, error: string) => {
+  sending.delete(signature);
+  const record = getEntry<PendingTransaction>('transaction', signature);
+  if (record?.status === 'sending') {
+    saveTransactionRecord({ ...record, status: 'failed', error, settledAt: new Date().toISOString() });
+  }
+};
+
+// Start following a sent transaction: announce it and check on it until it settles
+export const trackTransaction = async (
+  kind: PendingTransaction['kind'],
+  sent: SentTransaction,
+  bounty: BountyRecord,
+  requestedBy: string
+): Promise<void> => {
+  let record: PendingTransaction = {
+    ...sent,
+    kind,
+    status: 'pending',
+    bounty,
+    requestedBy,
+    submittedAt: new Date().toISOString()
+  };
+  sending.delete(sent.signature);
+  
+  // Save before commenting, so a crash in between never loses the transaction
+  saveTransactionRecord(record);
+  recordAudit({
+    event: 'transaction_sent',
+    actor: requestedBy,
+    issueUrl: bounty.issueUrl,
+    commentId: bounty.commentId,
+    taskId: bounty.taskId,
+    signature: sent.signature,
+    amount: bounty.amount,
+    token: bounty.tokenSymbol,
+    outcome: kind,
+    details: { recentBlockhash: sent.recentBlockhash, parentTaskId: bounty.parentTaskId }
+  });
+  record = await publishStatus(record);
+  saveTransactionRecord(record);
+};
+
+// Whether a bounty already has a transaction of the given kind in flight
+export const hasPendingTransaction = (taskId: string, kind: PendingTransaction['kind']): boolean =>
+  getPendingTransactions().some(record => record.bounty.taskId === taskId && record.kind === kind);
+
+// Apply the outcome of a transaction that has settled
+const settleTransaction = async (
+  record: PendingTransaction,
+  status: Exclude<PendingTransaction['status'], 'sending' | 'pending'>,
+  error?: string
+): Promise<void> => {
+  const { bounty } = record;
+  let settled: PendingTransaction = { ...record, status, error, settledAt: new Date().toISOString() };
+  
+  if (record.kind === 'create') {
+    if (status === 'confirmed') {
+      // Only a confirmed bounty is followed through its lifecycle
+      saveCommandRecord(bounty, { status: 'confirmed' });
+      saveBountyRecord(bounty);
+    } else {
+      // The escrow was never funded, so the reservation can go back to the user
+      saveCommandRecord(bounty, {
+        status: 'failed',
+        error: error || 'Transaction expired before it was confirmed'
+      });
+      releaseBudget(bounty);
+    }
+  } else if (status === 'confirmed') {
+    saveBountyRecord({ ...bounty, status: 'cancelled' });
+    releaseBudget(bounty);
+  }
+  
+  if (status === 'confirmed') {
+    confirmationSeconds.observe((Date.now() - new Date(record.submittedAt).getTime()) / 1000);
+    if (record.kind === 'create') {
+      bountiesCreated.inc({ token: bounty.tokenSymbol });
+    }
+  } else {
+    failures.inc({ reason: `transaction_${status}` });
+  }
+  
+  logger.info(`Transaction ${record.signature} (${record.kind} ${bounty.taskId}) ${status}`);
+  recordAudit({
+    event: 'transaction_settled',
+    actor: record.requestedBy,
+    issueUrl: bounty.issueUrl,
+    commentId: bounty.commentId,
+    taskId: bounty.taskId,
+    signature: record.signature,
+    amount: bounty.amount,
+    token: bounty.tokenSymbol,
+    outcome: status,
+    details: { kind: record.kind, error }
+  });
+  saveTransactionRecord(settled);
+  settled = await publishStatus(settled);
+  saveTransactionRecord(settled);
+  
+  if (record.kind === 'create') {
+    await showCommandState(getCommandRecord(bounty) || bounty, status === 'confirmed' ? 'funded' : 'failed');
+  }
+  if (status === 'confirmed') {
+    await updateFundedLabel(bounty.issueUrl);
+  }
+};
+
+// Check a pending transaction once, rebroadcasting it while its blockhash is still valid
+const checkTransaction = async (record: PendingTransaction): Promise<void> => {
+  // Simulated transactions are never broadcast; they confirm if their simulation is known
+  if (DRY_RUN) {
+    await settleTransaction(record, getSimulationReport(record.signature) ? 'confirmed' : 'expired');
+    return;
+  }
+  
+  const getStatus = async () =>
+    (await connection.getSignatureStatus(record.signature, { searchTransactionHistory: true })).value;
+  
+  let status = await getStatus();
+  if (status?.err) {
+    await settleTransaction(record, 'failed', JSON.stringify(status.err));
+    return;
+  }
+  if (status?.confirmationStatus === 'confirmed' || status?.confirmationStatus === 'finalized') {
+    await settleTransaction(record, 'confirmed');
+    return;
+  }
+  if (status) {
+    // Seen but only processed so far; wait for the next check
+    return;
+  }
+  
+  const { value: isBlockhashValid } = await connection.isBlockhashValid(record.recentBlockhash);
+  if (isBlockhashValid) {
+    await connection.sendRawTransaction(Buffer.from(record.signedTransaction, 'base64'), {
+      skipPreflight: true,
+      maxRetries: 0
+    });
+    return;
+  }
+  
+  // The transaction may have landed just before its blockhash expired
+  status = await getStatus();
+  if (!status) {
+    await settleTransaction(record, 'expired');
+  }
+};
+
+// Pick up a transaction the bot saved but may not have finished sending before it stopped: treat it
+// as sent, since it may have been, and let the checks rebroadcast it or let it expire
+const resumeTransaction = async (record: PendingTransaction): Promise<void> => {
+  logger.warn(`Resuming transaction ${record.signature}, which was being sent when the bot stopped`);
+  if (record.kind === 'create') {
+    saveCommandRecord(record.bounty, { status: 'submitted', signature: record.signature });
+    markBudgetSpent(record.bounty);
+  }
+  const { signature, signedTransaction, recentBlockhash } = record;
+  await trackTransaction(record.kind, { signature, signedTransaction, recentBlockhash }, record.bounty, record.requestedBy);
+};
+
+// Check every pending transaction, including those left over from before a restart
+export const checkPendingTransactions = async (): Promise<void> => {
+  if (isChecking) {
+    return;
+  }
+  
+  isChecking = true;
+  try {
+    for (const record of getPendingTransactions()) {
+      // Transactions still being sent are tracked once the send returns
+      if (record.status === 'sending' && sending.has(record.signature)) {
+        continue;
+      }
+  
+      try {
+        await withLogContext(
+          { commentId: record.bounty.commentId, taskId: record.bounty.taskId, signature: record.signature },
+          () => record.status === 'sending' ? resumeTransaction(record) : checkTransaction(record)
+        );
+      } catch (error) {
+        logger.error(`Error checking transaction ${record.signature}`, { error });
+      }
+    }
+  } finally {
+    isChecking = false;
+  }
+};
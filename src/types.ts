@@ -1,3 +1,6 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { PublicKey, VersionedTransaction } from '@solana/web3.js';
+
 export interface GitHubComment {
     id: number;
     body: string;
@@ -5,7 +8,10 @@ export interface GitHubComment {
       login: string;
     };
     issue_url: string;
+    html_url?: string;
     created_at: string;
+    updated_at: string;
+    isIssueBody?: boolean; // Set on an issue body handled as a comment
   }
   
   export interface GitHubIssue {
@@ -15,21 +21,141 @@ export interface GitHubComment {
     number: number;
     html_url: string;
     repository_url: string;
+    state?: string;
+    state_reason?: string | null;
+    assignees?: {
+      login: string;
+    }[];
+    labels?: {
+      name: string;
+    }[];
+  }
+  
+  export interface GitHubPullRequest {
+    number: number;
+    html_url: string;
+    state: string;
+    merged: boolean;
+    merged_at: string | null;
+    merge_commit_sha: string | null;
+  }
+  
+  // The subset of issue timeline events used to follow a bounty
+  export interface GitHubTimelineEvent {
+    event: string;
+    created_at?: string;
+    commit_id?: string | null; // For `closed`, the commit that closed the issue, e.g. a pull request's merge
+    source?: {
+      issue?: {
+        pull_request?: {
+          url: string;
+          html_url: string;
+        };
+      };
+    };
+  }
+  
+  // The subset of issue events used for label-triggered bounties
+  export interface GitHubIssueEvent {
+    id: number;
+    event: string;
+    created_at: string;
+    actor: {
+      login: string;
+    } | null;
+    label?: {
+      name: string;
+    };
+    issue?: {
+      url: string;
+    };
+  }
+  
+  // A bounty label added to or removed from an issue; its event ID stands in for a comment ID
+  export interface LabelEvent {
+    id: number;
+    action: 'labeled' | 'unlabeled';
+    label: string;
+    actor: string;
+    issueUrl: string;
+    createdAt: string;
+  }
+  
+  // Where polling for label events resumes in a repository
+  export interface LabelCursor {
+    lastEventId: number;
+    etag?: string;
   }
   
   export interface GitHubRepository {
     name: string;
     full_name: string;
     language: string;
+    topics?: string[];
     owner: {
       login: string;
     };
   }
   
+  // GitHub's primary rate limit, from the x-ratelimit-* headers
+  export interface GitHubRateLimit {
+    limit: number;
+    remaining: number;
+    resetAt: string;
+  }
+  
+  // Options of `/bounty <amount> <token>`
+  export interface CreateCommandOptions {
+    isPublic: boolean;
+    requirements?: string;
+    tags?: string[];
+    deadline?: string;
+  }
+  
+  // Every form of the `/bounty` command, as returned by parseCommand
+  export type ParsedCommand =
+    | { type: 'create'; amount: number; token: string; options: CreateCommandOptions }
+    | { type: 'preview'; amount: number; token: string; options: CreateCommandOptions }
+    | { type: 'topup'; amount: number; token?: string }
+    | { type: 'help' }
+    | { type: 'status' }
+    | { type: 'cancel' }
+    | { type: 'budget' }
+    | { type: 'approve'; id: string }
+    | { type: 'reject'; id: string }
+    | { type: 'invalid'; error: string };
+  
+  // A create command together with the comment it came from
   export interface BountyCommand {
     amount: number;
-    tokenAddress: string;
+    token: string;
+    options: CreateCommandOptions;
     issueUrl: string;
+    commentId: number;
+    requestedBy: string;
+    parentTaskId?: string; // Set for a top-up, which funds a task linked to the issue's bounty
+    origin?: CommandOrigin;
+    label?: string; // Set for a command from a bounty label
+  }
+  
+  // What a command came from: a comment, an issue body, a label or the operator CLI; comments are the default
+  export type CommandOrigin = 'comment' | 'issue' | 'label' | 'cli';
+  
+  // Identifies a command, e.g. to react to it on GitHub
+  export interface CommandRef {
+    issueUrl: string;
+    commentId: number;
+    origin?: CommandOrigin;
+  }
+  
+  // What the bot's records of a command are keyed by: its ID alone is only unique within its origin
+  export type CommandSource = Pick<CommandRef, 'commentId' | 'origin'>;
+  
+  export interface TokenInfo {
+    symbol: string;
+    name: string;
+    mintAddress: string;
+    decimals: number;
   }
   
   export interface BountyRequestPayload {
@@ -45,18 +171,264 @@ export interface GitHubComment {
     isHidden?: boolean; 
   }
   
+  // What a bounty's Gib.work task says, built from the issue, the repository and its settings
+  export interface BountyTask {
+    title: string;
+    content: string;
+    requirements: string;
+    tags: string[];
+  }
+  
   export interface BountyResponse {
     taskId: string;
     serializedTransaction: string;
   }
   
-  export interface GibworkCreateTaskResponse {
-    status: string;
+  export interface GibworkTask {
+    id: string;
+    title?: string;
+    status?: string;
+  }
+  
+  // Typed access to the Gib.work API; see createGibworkClient
+  export interface GibworkClient {
+    baseUrl: string;
+    createTaskTransaction(payload: BountyRequestPayload, idempotencyKey: string): Promise<BountyResponse>;
+    getTask(taskId: string): Promise<GibworkTask>;
+    createCancelTransaction(taskId: string, payer: string, idempotencyKey?: string): Promise<BountyResponse>;
+    ping(): Promise<void>;
+  }
+  
+  // Result of simulating a bounty transaction in dry-run mode
+  export interface SimulationReport {
+    signature: string;
+    success: boolean;
+    error?: string;
+    unitsConsumed?: number;
+    logs: string[];
+    balanceChanges: {
+      account: string;
+      asset: string;
+      change: string;
+    }[];
+  }
+  
+  // State store types
+  export interface ProcessedCommentRecord {
+    commentId: number;
+    repository: string;
+    createdAt: string;
+    updatedAt: string;
+    processedAt: string;
+  }
+  
+  // Where polling resumes in a repository
+  export interface RepoCursor {
+    since: string;
+    etag?: string;
+  }
+  
+  // 'processing' means we may have sent funds and must never retry automatically
+  export type CommandStatus = 'processing' | 'pending_approval' | 'rejected' | 'submitted' | 'confirmed' | 'failed';
+  
+  // A large bounty waiting for a second authorized user
+  export interface ApprovalRequest {
+    id: string;
+    command: BountyCommand;
+    token: TokenInfo;
+    status: 'pending' | 'approved' | 'rejected' | 'expired' | 'withdrawn';
+    requestCommentUrl?: string;
+    decidedBy?: string;
+    decidedAt?: string;
+    createdAt: string;
+    expiresAt: string;
+  }
+  
+  export interface CommandRecord {
+    commentId: number;
+    issueUrl: string;
+    amount: number;
+    token: string;
+    tokenAddress?: string;
+    requestedBy: string;
+    status: CommandStatus;
+    taskId?: string;
+    signature?: string;
+    error?: string;
+    origin?: CommandOrigin;
+    label?: string;
+    createdAt: string;
+    updatedAt: string;
+  }
+  
+  // Bounty lifecycle: open → claimed → pr_linked → completed, or cancelled/expired at any point before
+  // completion; an expired bounty still completes if a pull request merged late closes its issue
+  export type BountyStatus = 'open' | 'claimed' | 'pr_linked' | 'completed' | 'cancelled' | 'expired';
+  
+  export interface BountyRecord {
     taskId: string;
+    issueUrl: string;
+    commentId: number;
+    origin?: CommandOrigin;
+    requestedBy: string;
+    amount: number;
+    tokenAddress: string;
+    tokenSymbol: string;
+    signature: string;
+    status: BountyStatus;
+    assignee?: string;
+    pullRequestUrl?: string;
+    isPublic?: boolean;
+    deadline?: string;
+    parentTaskId?: string;
+    closedNotified?: boolean;
+    createdAt: string;
+    updatedAt: string;
+  }
+  
+  // A bounty that stops a second `/bounty` on the same issue, and where the bot learned of it
+  export interface ExistingBounty {
+    source: 'record' | 'in_progress' | 'marker';
+    taskId?: string;
+    commentId?: number;
+    status?: string;
+  }
+  
+  // A signed transaction that has been sent, with what is needed to rebroadcast it
+  export interface SentTransaction {
     signature: string;
+    signedTransaction: string;
+    recentBlockhash: string;
+  }
+  
+  // A sent transaction the tracker follows until it confirms, fails or its blockhash expires.
+  // 'sending' is saved once it is signed, before it is broadcast, so a crash mid-send leaves a record to resume.
+  export interface PendingTransaction extends SentTransaction {
+    kind: 'create' | 'cancel';
+    status: 'sending' | 'pending' | 'confirmed' | 'failed' | 'expired';
+    bounty: BountyRecord;
+    requestedBy: string;
+    statusCommentId?: number;
+    error?: string;
+    submittedAt: string;
+    settledAt?: string;
+  }
+  
+  // A transaction from the bot wallet that landed on chain but was never announced as funding a bounty
+  export interface OrphanedTransaction {
+    signature: string;
+    blockTime?: string;
+    commentId?: number;
+    issueUrl?: string;
+    reason: string;
+  }
+  
+  // A bot record that says funds moved, or were about to, without a confirmed transaction on chain:
+  // a bounty, a transaction the bot tracks, or a command stuck before it settled
+  export interface UnconfirmedRecord {
+    kind: 'bounty' | 'transaction' | 'command';
+    // The bounty's or transaction's task ID, or the command's key as replay takes it, e.g. issue:123
+    id: string;
+    issueUrl: string;
+    signature?: string;
+    reason: string;
+  }
+  
+  // Result of matching the bot wallet's recent transactions against the bot's records
+  export interface ReconcileReport {
+    wallet: string;
+    scanned: number;
+    since: string;
+    orphaned: OrphanedTransaction[];
+    unconfirmed: UnconfirmedRecord[];
+  }
+  
+  // Funds set aside for a bounty; 'reserved' until the transaction is sent
+  export interface SpendRecord {
+    commentId: number;
+    repository: string;
+    user: string;
+    tokenAddress: string;
+    amount: number;
+    status: 'reserved' | 'spent';
+    spentAt: string;
+  }
+  
+  // Webhook related types
+  export interface IssueCommentEventPayload {
+    action: string;
+    comment: GitHubComment;
+    issue: GitHubIssue;
+    repository: GitHubRepository;
+  }
+  
+  export interface IssuesEventPayload {
+    action: string;
+    issue: GitHubIssue & {
+      url: string;
+      created_at: string;
+      updated_at: string;
+      user: {
+        login: string;
+      };
+    };
+    label?: {
+      name: string;
+    };
+    repository: GitHubRepository;
+  }
+  
+  // Signs bot transactions; implementations hold the key locally or reach an external signer
+  export interface Signer {
+    publicKey: PublicKey;
+    description: string;
+    signTransaction: (transaction: VersionedTransaction) => Promise<void>;
   }
   
   // Auth related types
+  export type BountyRole = 'create' | 'cancel' | 'approve';
+  
   export interface AuthorizedUser {
     username: string;
-  }
\ No newline at end of file
+    roles: BountyRole[];
+  }
+  
+  // Grants roles to a user, to members of an org team, or to everyone with at least a repo permission level
+  export interface AuthorizationRule {
+    type: 'user' | 'team' | 'permission';
+    value: string;
+    roles: BountyRole[];
+  }
+  
+  export interface AuthorizationResult {
+    authorized: boolean;
+    reason: string;
+  }
+  
+  // Text of the Gib.work task; {placeholders} are filled in from the issue and the command
+  export interface BountyTemplates {
+    title: string;
+    content: string;
+  }
+  
+  // Bounty settings of a repository: the config file's defaults, its repository entry and env overrides combined
+  export interface RepoSettings {
+    authorizedUsers: AuthorizationRule[];
+    allowedTokens?: string[]; // Any token when unset
+    visibility: 'public' | 'private';
+    requirements: string;
+    tags?: string[]; // The repository's language when unset
+    templates: BountyTemplates;
+  }
+  
+  // Settings a repository entry of the config file can override
+  export type RepoSettingsOverrides = Partial<Omit<RepoSettings, 'templates'>> & { templates?: Partial<BountyTemplates> };
+  
+  // The validated config file
+  export interface BotSettings {
+    defaults: RepoSettings;
+    repositories: { name: string; settings: RepoSettingsOverrides }[];
+  }
+  
+  // Serves one route of the bot's HTTP server
+  export type RouteHandler = (req: IncomingMessage, res: ServerResponse) => Promise<void>;
\ No newline at end of file
@@ -0,0 +1,207 @@
+import crypto from 'crypto';
+import { IncomingMessage, ServerResponse } from 'http';
+import { GitHubComment, IssueCommentEventPayload, IssuesEventPayload } from './types';
+import { GITHUB_WEBHOOK_SECRET } from './config';
+import { findLabelEvent } from './github';
+import { parseBountyLabel } from './commands';
+import { isMonitoredRepository } from './settings';
+import { queueComment, queueLabelEvent } from './processor';
+import { refreshBountiesForIssue } from './lifecycle';
+import { logger } from './logger';
+
+// Issue actions that can move a bounty along its lifecycle
+const LIFECYCLE_ACTIONS = ['assigned', 'unassigned', 'closed', 'reopened'];
+
+// Issue actions that can add or withdraw a label-triggered bounty
+const LABEL_ACTIONS = ['labeled', 'unlabeled'];
+
+// GitHub caps webhook payloads at 25 MB
+const MAX_PAYLOAD_BYTES = 25 * 1024 * 1024;
+
+// Keep delivery IDs for a day; GitHub redeliveries happen well within that window
+const DELIVERY_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Delivery IDs we have already accepted, mapped to when we received them
+const seenDeliveries = new Map<string, number>();
+
+// Verify the X-Hub-Signature-256 header against the raw request body
+export const verifySignature = (payload: Buffer, signature: string | undefined): boolean => {
+  if (!signature || !signature.startsWith('sha256=')) {
+    return false;
+  }
+  
+  const expected = `sha256=${crypto.createHmac('sha256', GITHUB_WEBHOOK_SECRET).update(payload).digest('hex')}`;
+  const expectedBuffer = Buffer.from(expected);
+  const signatureBuffer = Buffer.from(signature);
+  
+  // timingSafeEqual throws on length mismatch
+  return expectedBuffer.length === signatureBuffer.length &&
+         crypto.timingSafeEqual(expectedBuffer, signatureBuffer);
+};
+
+// Record a delivery ID, returning false if it was already seen
+const markDelivery = (deliveryId: string): boolean => {
+  const now = Date.now();
+  
+  // Drop expired entries so the map doesn't grow forever
+  for (const [id, receivedAt] of seenDeliveries) {
+    if (now - receivedAt > DELIVERY_TTL_MS) {
+      seenDeliveries.delete(id);
+    }
+  }
+  
+  if (seenDeliveries.has(deliveryId)) {
+    return false;
+  }
+  
+  seenDeliveries.set(deliveryId, now);
+  return true;
+};
+
+// Read the raw request body, enforcing the payload size limit
+const readBody = (req: IncomingMessage): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_PAYLOAD_BYTES) {
+        reject(new Error('Payload too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+// Whether a parsed payload is a JSON object
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Whether a payload carries a comment with the fields the bot relies on
+const isIssueCommentPayload = (payload: unknown): payload is IssueCommentEventPayload =>
+  isRecord(payload) && typeof payload.action === 'string' && isRecord(payload.comment) &&
+  typeof payload.comment.id === 'number' && typeof payload.comment.issue_url === 'string';
+
+// Whether a payload carries an issue with the fields the bot relies on
+const isIssuesPayload = (payload: unknown): payload is IssuesEventPayload =>
+  isRecord(payload) && typeof payload.action === 'string' && isRecord(payload.issue) &&
+  typeof payload.issue.id === 'number' && typeof payload.issue.url === 'string';
+
+// Turn a webhook event into a comment for the bounty pipeline, if it carries one
+export const getCommentFromEvent = (event: string, payload: unknown): GitHubComment | null => {
+  if (event === 'issue_comment' && isIssueCommentPayload(payload)) {
+    const { action, comment } = payload;
+    return action === 'created' || action === 'edited' ? comment : null;
+  }
+  
+  if (event === 'issues' && isIssuesPayload(payload)) {
+    const { action, issue } = payload;
+    if (action !== 'opened' && action !== 'edited') {
+      return null;
+    }
+    
+    // Treat the issue body as a comment written by the issue author
+    return {
+      id: issue.id,
+      body: issue.body,
+      user: issue.user,
+      issue_url: issue.url,
+      created_at: issue.created_at,
+      updated_at: issue.updated_at,
+      isIssueBody: true
+    };
+  }
+  
+  return null;
+};
+
+// Handle a GitHub webhook delivery
+export const handleWebhookRequest = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+  let body: Buffer;
+  try {
+    body = await readBody(req);
+  } catch (error) {
+    res.writeHead(413).end();
+    return;
+  }
+  
+  if (!verifySignature(body, req.headers['x-hub-signature-256'] as string | undefined)) {
+    logger.warn('Rejected webhook delivery with invalid signature');
+    res.writeHead(401).end();
+    return;
+  }
+  
+  const event = req.headers['x-github-event'] as string | undefined;
+  const deliveryId = req.headers['x-github-delivery'] as string | undefined;
+  
+  if (!event || !deliveryId) {
+    res.writeHead(400).end();
+    return;
+  }
+  
+  if (!markDelivery(deliveryId)) {
+    logger.info(`Ignoring duplicate webhook delivery ${deliveryId}`);
+    res.writeHead(200).end();
+    return;
+  }
+  
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body.toString('utf8'));
+  } catch (error) {
+    res.writeHead(400).end();
+    return;
+  }
+  
+  // Acknowledge right away; GitHub times out deliveries after 10 seconds
+  res.writeHead(202).end();
+  
+  const repository = isRecord(payload) && isRecord(payload.repository) ? payload.repository.full_name : undefined;
+  if (typeof repository !== 'string' || !isMonitoredRepository(repository)) {
+    return;
+  }
+  
+  if (event === 'issues' && isIssuesPayload(payload) && LIFECYCLE_ACTIONS.includes(payload.action)) {
+    try {
+      await refreshBountiesForIssue(payload.issue.url);
+    } catch (error) {
+      logger.error(`Error refreshing bounties for webhook delivery ${deliveryId}`, { error });
+    }
+    return;
+  }
+  
+  if (event === 'issues' && isIssuesPayload(payload) && LABEL_ACTIONS.includes(payload.action)) {
+    const { action, issue, label } = payload;
+    if (!label || !parseBountyLabel(label.name)) {
+      return;
+    }
+    
+    try {
+      // The delivery doesn't carry the label event's ID, which the command is recorded under
+      const labelEvent = await findLabelEvent(issue.url, action as 'labeled' | 'unlabeled', label.name);
+      if (labelEvent) {
+        logger.info(`Received ${action} webhook ${deliveryId} for ${repository}`);
+        await queueLabelEvent(labelEvent);
+      }
+    } catch (error) {
+      logger.error(`Error handling webhook delivery ${deliveryId}`, { error });
+    }
+    return;
+  }
+  
+  const comment = getCommentFromEvent(event, payload);
+  if (!comment) {
+    return;
+  }
+  
+  logger.info(`Received ${event} webhook ${deliveryId} for ${repository}`);
+  try {
+    await queueComment(comment);
+  } catch (error) {
+    logger.error(`Error handling webhook delivery ${deliveryId}`, { error });
+  }
+};
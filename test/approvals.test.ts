@@ -0,0 +1,134 @@
+import { ApprovalRequest, BountyCommand } from '../src/types';
+import { commentOnIssueUrl } from '../src/github';
+import { reserveBudget } from '../src/budgets';
+import { findKnownToken } from '../src/tokens';
+import {
+  approveRequest,
+  expireApprovalRequests,
+  rejectRequest,
+  requestApproval,
+  withdrawApproval
+} from '../src/approvals';
+import { commandKey, getCommandRecord, getEntry, listEntries, putEntry, saveCommandRecord } from '../src/store';
+
+jest.mock('../src/github', () => ({
+  ...jest.requireActual('../src/github'),
+  commentOnIssueUrl: jest.fn()
+}));
+jest.mock('../src/indicators', () => ({ showCommandState: jest.fn(), updateFundedLabel: jest.fn() }));
+
+const usdc = findKnownToken('USDC')!;
+const issueUrl = 'https://api.github.com/repos/owner/repo/issues/1';
+let commentId = 0;
+
+// Reserve a command's budget and ask for its approval, as processing a large `/bounty` would
+const requestFor = async (update: Partial<BountyCommand> = {}): Promise<ApprovalRequest> => {
+  const command: BountyCommand = {
+    amount: 10,
+    token: 'USDC',
+    options: { isPublic: false },
+    issueUrl,
+    commentId: ++commentId,
+    requestedBy: 'alice',
+    ...update
+  };
+  reserveBudget(command, 'owner/repo', command.requestedBy, usdc, command.amount);
+  saveCommandRecord(command, { issueUrl, amount: command.amount, token: 'USDC', requestedBy: command.requestedBy, status: 'pending_approval' });
+  await requestApproval(command, usdc);
+  return listEntries<ApprovalRequest>('approval').find(approval => commandKey(approval.command) === commandKey(command))!;
+};
+
+const getApproval = (id: string) => getEntry<ApprovalRequest>('approval', id);
+
+describe('approval requests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (commentOnIssueUrl as jest.Mock).mockResolvedValue({ html_url: 'https://github.com/owner/repo/issues/1#issuecomment-1' });
+  });
+  
+  it('starts pending, with a link to the comment asking for approval', async () => {
+    const approval = await requestFor();
+  
+    expect(approval).toMatchObject({ status: 'pending', requestCommentUrl: 'https://github.com/owner/repo/issues/1#issuecomment-1' });
+    expect(approval.id).toMatch(/^[0-9a-f]{6}$/);
+    expect(commentOnIssueUrl).toHaveBeenCalledWith(issueUrl, expect.stringContaining(`/bounty approve ${approval.id}`));
+  });
+  
+  it('moves to approved when a second user approves, keeping the budget reserved', async () => {
+    const approval = await requestFor();
+  
+    const approved = await approveRequest(approval.id, 'bob', issueUrl);
+  
+    expect(approved).toMatchObject({ status: 'approved', decidedBy: 'bob' });
+    expect(getApproval(approval.id)?.status).toBe('approved');
+    expect(getEntry('spend', commandKey(approval.command))).toMatchObject({ status: 'reserved' });
+  });
+  
+  it('moves to rejected when a second user rejects, releasing the budget', async () => {
+    const approval = await requestFor();
+  
+    await rejectRequest(approval.id, 'bob', issueUrl);
+  
+    expect(getApproval(approval.id)).toMatchObject({ status: 'rejected', decidedBy: 'bob' });
+    expect(getCommandRecord(approval.command)).toMatchObject({ status: 'rejected', error: 'Rejected by bob' });
+    expect(getEntry('spend', commandKey(approval.command))).toBeUndefined();
+  });
+  
+  it('does not let the requester decide on their own request', async () => {
+    const approval = await requestFor();
+  
+    expect(await approveRequest(approval.id, 'Alice', issueUrl)).toBeNull();
+    expect(getApproval(approval.id)?.status).toBe('pending');
+    expect(commentOnIssueUrl).toHaveBeenLastCalledWith(issueUrl, expect.stringContaining('a different authorized user has to decide'));
+  });
+  
+  it('refuses a decision on a request that is already decided or belongs to another issue', async () => {
+    const approval = await requestFor();
+    await rejectRequest(approval.id, 'bob', issueUrl);
+  
+    expect(await approveRequest(approval.id, 'carol', issueUrl)).toBeNull();
+    expect(commentOnIssueUrl).toHaveBeenLastCalledWith(issueUrl, expect.stringContaining(`\`${approval.id}\` was already rejected`));
+  
+    const otherIssueUrl = 'https://api.github.com/repos/owner/repo/issues/2';
+    expect(await approveRequest(approval.id, 'carol', otherIssueUrl)).toBeNull();
+    expect(commentOnIssueUrl).toHaveBeenLastCalledWith(otherIssueUrl, `❌ There is no approval request \`${approval.id}\` on this issue.`);
+    expect(getApproval(approval.id)?.status).toBe('rejected');
+  });
+  
+  it('moves to expired past its deadline, failing the command and releasing the budget', async () => {
+    const approval = await requestFor();
+    putEntry('approval', approval.id, { ...approval, expiresAt: new Date(Date.now() - 1000).toISOString() });
+  
+    await expireApprovalRequests();
+  
+    expect(getApproval(approval.id)?.status).toBe('expired');
+    expect(getCommandRecord(approval.command)).toMatchObject({ status: 'failed', error: 'Approval request expired' });
+    expect(getEntry('spend', commandKey(approval.command))).toBeUndefined();
+  });
+  
+  it('expires instead of approving when a decision comes in too late', async () => {
+    const approval = await requestFor();
+    putEntry('approval', approval.id, { ...approval, expiresAt: new Date(Date.now() - 1000).toISOString() });
+  
+    expect(await approveRequest(approval.id, 'bob', issueUrl)).toBeNull();
+    expect(getApproval(approval.id)?.status).toBe('expired');
+  });
+  
+  it('moves to withdrawn when the label that requested it is removed', async () => {
+    const approval = await requestFor({ origin: 'label' });
+  
+    await withdrawApproval({ commentId: approval.command.commentId, origin: 'label' }, 'carol');
+  
+    expect(getApproval(approval.id)).toMatchObject({ status: 'withdrawn', decidedBy: 'carol' });
+    expect(getCommandRecord(approval.command)).toMatchObject({ status: 'rejected', error: 'Withdrawn by carol' });
+    expect(getEntry('spend', commandKey(approval.command))).toBeUndefined();
+  });
+  
+  it('leaves requests of another origin with the same ID alone when withdrawing', async () => {
+    const approval = await requestFor();
+  
+    await withdrawApproval({ commentId: approval.command.commentId, origin: 'label' }, 'carol');
+  
+    expect(getApproval(approval.id)?.status).toBe('pending');
+  });
+});
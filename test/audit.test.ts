@@ -0,0 +1,45 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createAuditLog, readAuditLog, verifyAuditLog } from '../src/audit';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gibwork-bot-audit-'));
+let count = 0;
+let file: string;
+
+beforeEach(() => {
+  file = path.join(dir, `audit-${++count}.jsonl`);
+});
+
+describe('createAuditLog', () => {
+  it('chains entries across restarts', () => {
+    createAuditLog(file)({ event: 'command_parsed', outcome: 'create' });
+    createAuditLog(file)({ event: 'authorization', outcome: 'allowed' });
+  
+    const entries = readAuditLog(file);
+    expect(entries.map(entry => entry.seq)).toEqual([1, 2]);
+    expect(verifyAuditLog(entries)).toBeNull();
+  });
+  
+  it('drops a last line a crash cut short and chains from the entry before it', () => {
+    createAuditLog(file)({ event: 'command_parsed', outcome: 'create' });
+    fs.appendFileSync(file, '{"seq":2,"time":"2026-');
+  
+    expect(readAuditLog(file)).toHaveLength(1);
+  
+    createAuditLog(file)({ event: 'authorization', outcome: 'allowed' });
+    const entries = readAuditLog(file);
+    expect(entries.map(entry => entry.outcome)).toEqual(['create', 'allowed']);
+    expect(verifyAuditLog(entries)).toBeNull();
+  });
+  
+  it('keeps a whole last entry that only lost its newline', () => {
+    createAuditLog(file)({ event: 'command_parsed', outcome: 'create' });
+    fs.writeFileSync(file, fs.readFileSync(file, 'utf8').trimEnd());
+  
+    createAuditLog(file)({ event: 'authorization', outcome: 'allowed' });
+    const entries = readAuditLog(file);
+    expect(entries.map(entry => entry.seq)).toEqual([1, 2]);
+    expect(verifyAuditLog(entries)).toBeNull();
+  });
+});
@@ -0,0 +1,24 @@
+import { releaseBudget, reserveBudget } from '../src/budgets';
+import { findKnownToken } from '../src/tokens';
+
+const usdc = findKnownToken('USDC')!;
+
+describe('reserveBudget', () => {
+  afterEach(() => {
+    releaseBudget({ commentId: 1 });
+    releaseBudget({ commentId: 2 });
+  });
+  
+  it('counts a user\'s spending in every repository against their budget', () => {
+    reserveBudget({ commentId: 1 }, 'owner/repo', 'alice', usdc, 60);
+    
+    expect(() => reserveBudget({ commentId: 2 }, 'owner/other', 'alice', usdc, 60))
+      .toThrow('This would exceed your daily budget of 100 USDC across all repositories (40 USDC left)');
+  });
+  
+  it('keeps each user\'s budget separate', () => {
+    reserveBudget({ commentId: 1 }, 'owner/repo', 'alice', usdc, 60);
+    
+    expect(() => reserveBudget({ commentId: 2 }, 'owner/other', 'bob', usdc, 60)).not.toThrow();
+  });
+});
@@ -0,0 +1,160 @@
+import { parseBountyLabel, parseCommand, parseDeadline } from '../src/commands';
+
+const now = new Date('2026-01-01T00:00:00.000Z');
+
+const error = (body: string): string | undefined => {
+  const command = parseCommand(body);
+  return command?.type === 'invalid' ? command.error : undefined;
+};
+
+describe('parseCommand', () => {
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(now);
+  });
+  
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+  
+  it('ignores comments without a command, and commands in code blocks or mid-line', () => {
+    expect(parseCommand('')).toBeNull();
+    expect(parseCommand('Thanks for the fix!')).toBeNull();
+    expect(parseCommand('```\n/bounty 50 USDC\n```')).toBeNull();
+    expect(parseCommand('Try /bounty 50 USDC')).toBeNull();
+    expect(parseCommand('/bountyful 50 USDC')).toBeNull();
+  });
+  
+  it('finds the command on any line of the comment', () => {
+    expect(parseCommand('Funding this one.\n\n  /Bounty 50 USDC  \nThanks')).toMatchObject({ type: 'create', amount: 50, token: 'USDC' });
+  });
+  
+  it('parses a bounty with its amount, token and default options', () => {
+    expect(parseCommand('/bounty 50 USDC')).toEqual({ type: 'create', amount: 50, token: 'USDC', options: { isPublic: false } });
+    expect(parseCommand('/bounty 0.5 So11111111111111111111111111111111111111112')).toMatchObject({
+      amount: 0.5,
+      token: 'So11111111111111111111111111111111111111112'
+    });
+  });
+  
+  it('parses every option, with separate or inline values', () => {
+    expect(parseCommand('/bounty 50 USDC --public --requirements "Add tests, then docs" --tags=frontend,,bug --deadline 2w')).toEqual({
+      type: 'create',
+      amount: 50,
+      token: 'USDC',
+      options: {
+        isPublic: true,
+        requirements: 'Add tests, then docs',
+        tags: ['frontend', 'bug'],
+        deadline: '2026-01-15T00:00:00.000Z'
+      }
+    });
+  });
+  
+  it('keeps single-quoted and curly-quoted text together', () => {
+    expect(parseCommand('/bounty 50 USDC --requirements \'Fix it\'')).toMatchObject({ options: { requirements: 'Fix it' } });
+    expect(parseCommand('/bounty 50 USDC --requirements “Fix it”')).toMatchObject({ options: { requirements: 'Fix it' } });
+    expect(parseCommand('/bounty 50 USDC --requirements=" Fix it "')).toMatchObject({ options: { requirements: 'Fix it' } });
+  });
+  
+  it('parses deadlines as durations or dates', () => {
+    expect(parseCommand('/bounty 50 USDC --deadline 48h')).toMatchObject({ options: { deadline: '2026-01-03T00:00:00.000Z' } });
+    expect(parseCommand('/bounty 50 USDC --deadline 10D')).toMatchObject({ options: { deadline: '2026-01-11T00:00:00.000Z' } });
+    expect(parseCommand('/bounty 50 USDC --deadline 2026-12-31')).toMatchObject({ options: { deadline: '2026-12-31T00:00:00.000Z' } });
+  });
+  
+  it('parses subcommands without arguments', () => {
+    for (const type of ['help', 'status', 'cancel', 'budget']) {
+      expect(parseCommand(`/bounty ${type}`)).toEqual({ type });
+    }
+    expect(parseCommand('/bounty STATUS')).toEqual({ type: 'status' });
+  });
+  
+  it('parses preview with the arguments of the bounty it previews', () => {
+    expect(parseCommand('/bounty preview 50 USDC --public')).toEqual({ type: 'preview', amount: 50, token: 'USDC', options: { isPublic: true } });
+  });
+  
+  it('parses topup with or without a token', () => {
+    expect(parseCommand('/bounty topup 25')).toEqual({ type: 'topup', amount: 25, token: undefined });
+    expect(parseCommand('/bounty topup 25 USDC')).toEqual({ type: 'topup', amount: 25, token: 'USDC' });
+  });
+  
+  it('parses approve and reject with a lowercased approval ID', () => {
+    expect(parseCommand('/bounty approve A1B2C3')).toEqual({ type: 'approve', id: 'a1b2c3' });
+    expect(parseCommand('/bounty reject a1b2c3')).toEqual({ type: 'reject', id: 'a1b2c3' });
+  });
+  
+  it('reports a missing or invalid amount or token', () => {
+    expect(error('/bounty')).toBe('Missing amount and token.');
+    expect(error('/bounty 1.2.3 USDC')).toBe('`1.2.3` is not a valid amount. Use a positive number such as `50` or `0.5`.');
+    expect(error('/bounty 0 USDC')).toBe('`0` is not a valid amount. Use a positive number such as `50` or `0.5`.');
+    expect(error('/bounty .5 USDC')).toBe('`.5` is not a valid amount. Use a positive number such as `50` or `0.5`.');
+    expect(error('/bounty 50')).toBe('Missing token. Use a symbol such as `USDC` or a token mint address.');
+    expect(error('/bounty 50 --public')).toBe('Missing token. Use a symbol such as `USDC` or a token mint address.');
+  });
+  
+  it('reports unexpected words and unknown options, suggesting the one meant', () => {
+    expect(error('/bounty 50 USDC public')).toBe('Unexpected `public`. Options start with `--`.');
+    expect(error('/bounty 50 USDC --tag a')).toBe('Unknown option `--tag`. Did you mean `--tags`?');
+    expect(error('/bounty 50 USDC --visibility public')).toBe('Unknown option `--visibility`.');
+  });
+  
+  it('reports options without a usable value', () => {
+    expect(error('/bounty 50 USDC --tags')).toBe('Option `--tags` needs a value.');
+    expect(error('/bounty 50 USDC --deadline --public')).toBe('Option `--deadline` needs a value.');
+    expect(error('/bounty 50 USDC --requirements "  "')).toBe('Requirements cannot be empty.');
+    expect(error('/bounty 50 USDC --tags ,')).toBe('Give at least one tag, e.g. `--tags frontend,bug`.');
+  });
+  
+  it('reports invalid deadlines', () => {
+    expect(error('/bounty 50 USDC --deadline soon')).toBe(
+      '`soon` is not a valid deadline. Use a duration such as `48h`, `10d` or `2w`, or a date such as `2026-12-31`.'
+    );
+    expect(error('/bounty 50 USDC --deadline 2026-13-45')).toBe('`2026-13-45` is not a valid date.');
+    expect(error('/bounty 50 USDC --deadline 2025-12-31')).toBe('The deadline `2025-12-31` is in the past.');
+  });
+  
+  it('reports unknown subcommands, suggesting the one meant', () => {
+    expect(error('/bounty stauts')).toBe('Unknown subcommand `stauts`. Did you mean `status`?');
+    expect(error('/bounty withdraw')).toBe('Unknown subcommand `withdraw`.');
+  });
+  
+  it('reports bad subcommand arguments with their usage', () => {
+    expect(error('/bounty preview 50')).toBe(
+      'Missing token. Use a symbol such as `USDC` or a token mint address. Usage: `/bounty preview <amount> <token> [options]`.'
+    );
+    expect(error('/bounty topup')).toBe('Missing amount.');
+    expect(error('/bounty topup ten')).toBe('`ten` is not a valid amount. Use a positive number such as `50` or `0.5`.');
+    expect(error('/bounty topup 25 USDC now')).toBe('Unexpected `now`. Usage: `/bounty topup <amount> [token]`.');
+    expect(error('/bounty approve')).toBe('Usage: `/bounty approve <id>`, with the 6-character ID from the approval request.');
+    expect(error('/bounty reject xyz123')).toBe('Usage: `/bounty reject <id>`, with the 6-character ID from the approval request.');
+    expect(error('/bounty status now please')).toBe('`/bounty status` takes no arguments, but got `now please`.');
+  });
+});
+
+describe('parseDeadline', () => {
+  it('adds durations to the given time', () => {
+    expect(parseDeadline('1w', now)).toEqual(new Date('2026-01-08T00:00:00.000Z'));
+  });
+  
+  it('accepts dates with a time', () => {
+    expect(parseDeadline('2026-06-01T12:00:00Z', now)).toEqual(new Date('2026-06-01T12:00:00.000Z'));
+  });
+});
+
+describe('parseBountyLabel', () => {
+  it('reads the amount and token of a bounty label', () => {
+    expect(parseBountyLabel('bounty:50-usdc')).toEqual({ amount: 50, token: 'usdc' });
+    expect(parseBountyLabel('Bounty:0.5-SOL')).toEqual({ amount: 0.5, token: 'SOL' });
+    expect(parseBountyLabel(' bounty: 25-BONK ')).toEqual({ amount: 25, token: 'BONK' });
+  });
+  
+  it('ignores other labels and malformed bounty labels', () => {
+    const labels = [
+      'bug', 'bounty', 'bounty-funded', 'bounty:usdc', 'bounty:50',
+      'bounty:0-usdc', 'bounty:-5-usdc', 'bounty:1e3-usdc', 'bounty:50-usdc-extra'
+    ];
+    for (const label of labels) {
+      expect(parseBountyLabel(label)).toBeNull();
+    }
+  });
+});
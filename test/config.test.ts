@@ -0,0 +1,32 @@
+// Load the config module afresh with extra environment variables
+const loadConfig = (env: Record<string, string>): typeof import('../src/config') => {
+  const saved = { ...process.env };
+  Object.assign(process.env, env);
+  try {
+    let config: typeof import('../src/config') | undefined;
+    jest.isolateModules(() => {
+      config = require('../src/config');
+    });
+    return config!;
+  } finally {
+    process.env = saved;
+  }
+};
+
+describe('validateConfig', () => {
+  it('accepts the test environment', () => {
+    expect(() => loadConfig({}).validateConfig()).not.toThrow();
+  });
+  
+  it('reports an invalid setting when called, not when the config is imported', () => {
+    const config = loadConfig({ LOG_FORMAT: 'xml' });
+  
+    expect(() => config.validateConfig()).toThrow('LOG_FORMAT must be either \'json\' or \'text\', got \'xml\'');
+  });
+  
+  it('requires the wallet a remote signer must hold', () => {
+    const config = loadConfig({ SIGNER_TYPE: 'remote', SIGNER_URL: 'unix:/run/signer.sock' });
+  
+    expect(() => config.validateConfig()).toThrow('SIGNER_URL and WALLET_PUBLIC_KEY are required for SIGNER_TYPE=remote');
+  });
+});
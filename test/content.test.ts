@@ -0,0 +1,88 @@
+import { BountyCommand } from '../src/types';
+import { getContributingGuideUrl, getIssueFromUrl, getRepositoryFromUrl } from '../src/github';
+import { getRepoSettings } from '../src/settings';
+import { findKnownToken } from '../src/tokens';
+import { buildBountyTask, sanitizeMarkdown } from '../src/content';
+
+jest.mock('../src/github', () => ({
+  ...jest.requireActual('../src/github'),
+  getContributingGuideUrl: jest.fn(),
+  getIssueFromUrl: jest.fn(),
+  getRepositoryFromUrl: jest.fn()
+}));
+jest.mock('../src/settings', () => ({
+  ...jest.requireActual('../src/settings'),
+  getRepoSettings: jest.fn()
+}));
+
+describe('sanitizeMarkdown', () => {
+  it('drops a link with spaces around a script destination', () => {
+    expect(sanitizeMarkdown('[x]( javascript:alert(1) )')).toBe('x');
+  });
+  
+  it('drops a reference definition with a script destination', () => {
+    expect(sanitizeMarkdown('[x][1]\n\n[1]: javascript:alert(1)')).toBe('[x][1]');
+  });
+  
+  it('decodes character references before checking the scheme', () => {
+    expect(sanitizeMarkdown('[x](javascript&colon;alert(1)) [y](&#106;avascript:alert(1)) [z](java\\script:alert(1))'))
+      .toBe('x y z');
+  });
+  
+  it('drops an image with an angle-bracketed script destination whole', () => {
+    expect(sanitizeMarkdown('![a](<javascript:alert(1)>)')).toBe('');
+  });
+  
+  it('does not let a dropped link or removed HTML join text into a new link', () => {
+    expect(sanitizeMarkdown('[[x]](javascript:a)(javascript:b)')).toBe('[x]\\(javascript:b)');
+    expect(sanitizeMarkdown('[x]<b></b>(javascript:a)')).toBe('x');
+  });
+  
+  it('keeps web and email links and turns images into links', () => {
+    expect(sanitizeMarkdown('[docs](https://example.com/a_(b) "Docs") [mail](mailto:dev@example.com) [top](#top)'))
+      .toBe('[docs](https://example.com/a_%28b%29) [mail](mailto:dev@example.com) top');
+    expect(sanitizeMarkdown('![shot](https://example.com/a.png)')).toBe('[🖼️ shot](https://example.com/a.png)');
+  });
+  
+  it('leaves fenced code blocks alone', () => {
+    expect(sanitizeMarkdown('```\n[x](javascript:alert(1))\n```')).toBe('```\n[x](javascript:alert(1))\n```');
+  });
+});
+
+describe('buildBountyTask', () => {
+  const command: BountyCommand = {
+    amount: 50,
+    token: 'USDC',
+    options: { isPublic: false },
+    issueUrl: 'https://api.github.com/repos/owner/repo/issues/1',
+    commentId: 1,
+    requestedBy: 'alice'
+  };
+  
+  beforeEach(() => {
+    (getIssueFromUrl as jest.Mock).mockResolvedValue({
+      number: 1,
+      title: '[x](javascript:alert(1))',
+      body: 'Fix [it](https://example.com)',
+      html_url: 'https://github.com/owner/repo/issues/1',
+      repository_url: 'https://api.github.com/repos/owner/repo',
+      labels: []
+    });
+    (getRepositoryFromUrl as jest.Mock).mockResolvedValue({ language: 'TypeScript', topics: [] });
+    (getContributingGuideUrl as jest.Mock).mockResolvedValue(null);
+    (getRepoSettings as jest.Mock).mockReturnValue({
+      visibility: 'private',
+      requirements: 'PR to be merged',
+      templates: { title: '{title}', content: '## {title}\n\n{body}' }
+    });
+  });
+  
+  it('sanitizes issue text wherever a template puts it', async () => {
+    const task = await buildBountyTask(command, findKnownToken('USDC')!);
+  
+    expect(task.title).toBe('x');
+    expect(task.content).toBe(
+      '## x\n\nFix [it](https://example.com)\n\n---\n\n- Issue: [owner/repo#1](https://github.com/owner/repo/issues/1)\n'
+    );
+  });
+});
@@ -0,0 +1,117 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createGibworkClient, GibworkServiceError, GibworkUserError } from '../src/gibwork';
+
+const payload = {
+  title: 'Fix it',
+  content: 'Details',
+  requirements: 'PR to be merged',
+  tags: ['bug'],
+  payer: 'wallet',
+  token: { mintAddress: 'mint', amount: 10 },
+  isHidden: true
+};
+
+// Answers queued for the fake Gib.work API, and the requests it got
+let replies: [number, string][] = [];
+let requests: http.IncomingHttpHeaders[] = [];
+let baseUrl: string;
+
+const server = http.createServer((req, res) => {
+  requests.push(req.headers);
+  const [status, body] = replies.shift() || [500, 'no reply queued'];
+  req.resume();
+  req.on('end', () => res.writeHead(status, { 'content-type': 'application/json' }).end(body));
+});
+
+beforeAll(done => {
+  server.listen(0, '127.0.0.1', () => {
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    done();
+  });
+});
+
+afterAll(done => {
+  server.close(done);
+});
+
+beforeEach(() => {
+  replies = [];
+  requests = [];
+  // No backoff, so retries don't slow the tests down
+  jest.spyOn(Math, 'random').mockReturnValue(0);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('createGibworkClient', () => {
+  const transaction = JSON.stringify({ taskId: 'task-1', serializedTransaction: 'dHg=' });
+  
+  it('retries server errors and rate limiting, reusing the idempotency key', async () => {
+    replies = [[503, '{"message":"down"}'], [429, ''], [200, transaction]];
+    const client = createGibworkClient(baseUrl, { maxRetries: 3 });
+  
+    await expect(client.createTaskTransaction(payload, 'key-1')).resolves.toEqual({ taskId: 'task-1', serializedTransaction: 'dHg=' });
+    expect(requests.map(headers => headers['idempotency-key'])).toEqual(['key-1', 'key-1', 'key-1']);
+  });
+  
+  it('gives up after the last retry with a service error', async () => {
+    replies = [[502, ''], [500, '{"error":"still down"}']];
+    const client = createGibworkClient(baseUrl, { maxRetries: 1 });
+  
+    const result = client.createTaskTransaction(payload, 'key-2');
+    await expect(result).rejects.toThrow(GibworkServiceError);
+    await expect(result).rejects.toThrow('Gib.work task creation failed: still down (HTTP 500)');
+    expect(requests).toHaveLength(2);
+  });
+  
+  it('does not retry a request Gib.work rejected', async () => {
+    replies = [[400, '{"message":"Amount too small"}']];
+    const client = createGibworkClient(baseUrl, { maxRetries: 3 });
+  
+    const result = client.createTaskTransaction(payload, 'key-3');
+    await expect(result).rejects.toThrow(GibworkUserError);
+    await expect(result).rejects.toThrow('Gib.work task creation failed: Amount too small (HTTP 400)');
+    expect(requests).toHaveLength(1);
+  });
+  
+  it('retries a response it can\'t read', async () => {
+    replies = [[200, '<html>'], [200, transaction]];
+    const client = createGibworkClient(baseUrl, { maxRetries: 1 });
+  
+    await expect(client.createTaskTransaction(payload, 'key-4')).resolves.toMatchObject({ taskId: 'task-1' });
+    expect(requests).toHaveLength(2);
+  });
+  
+  it('rejects a response without the fields it needs', async () => {
+    replies = [[200, '{"taskId":"task-1"}']];
+    const client = createGibworkClient(baseUrl, { maxRetries: 1 });
+  
+    await expect(client.createTaskTransaction(payload, 'key-5')).rejects.toThrow(
+      'Unexpected response from Gib.work task creation: missing `serializedTransaction`'
+    );
+    expect(requests).toHaveLength(1);
+  });
+  
+  it('gives each cancellation without a key its own, kept across its retries', async () => {
+    replies = [[503, ''], [200, transaction], [200, transaction]];
+    const client = createGibworkClient(baseUrl, { maxRetries: 1 });
+  
+    await client.createCancelTransaction('task-1', 'wallet');
+    await client.createCancelTransaction('task-1', 'wallet');
+  
+    const [first, retry, second] = requests.map(headers => headers['idempotency-key']);
+    expect(retry).toBe(first);
+    expect(second).not.toBe(first);
+  });
+  
+  it('sends no idempotency key on lookups', async () => {
+    replies = [[200, '{"id":"task-1","status":"open"}']];
+    const client = createGibworkClient(baseUrl);
+  
+    await expect(client.getTask('task-1')).resolves.toEqual({ id: 'task-1', title: undefined, status: 'open' });
+    expect(requests[0]['idempotency-key']).toBeUndefined();
+  });
+});
@@ -0,0 +1,114 @@
+import { BountyRecord, GitHubPullRequest, GitHubTimelineEvent } from '../src/types';
+import { commentOnIssueUrl, getIssueFromUrl, getIssueTimeline, getPullRequestFromUrl } from '../src/github';
+import { refreshBountiesForIssue } from '../src/lifecycle';
+import { getBountyRecord, saveBountyRecord } from '../src/store';
+
+jest.mock('../src/github', () => ({
+  ...jest.requireActual('../src/github'),
+  commentOnIssueUrl: jest.fn(),
+  getIssueFromUrl: jest.fn(),
+  getIssueTimeline: jest.fn(),
+  getPullRequestFromUrl: jest.fn()
+}));
+jest.mock('../src/indicators', () => ({ showCommandState: jest.fn(), updateFundedLabel: jest.fn() }));
+
+let issueNumber = 0;
+
+// A bounty on a fresh issue, so tests don't see each other's records
+const createBounty = (update: Partial<BountyRecord>): BountyRecord => {
+  const bounty: BountyRecord = {
+    taskId: `task-${++issueNumber}`,
+    issueUrl: `https://api.github.com/repos/owner/repo/issues/${issueNumber}`,
+    commentId: issueNumber,
+    requestedBy: 'alice',
+    amount: 10,
+    tokenAddress: 'mint',
+    tokenSymbol: 'USDC',
+    signature: 'sig',
+    status: 'open',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...update
+  };
+  saveBountyRecord(bounty);
+  return bounty;
+};
+
+const pullRequest = (number: number, mergeCommit: string | null): GitHubPullRequest => ({
+  number,
+  html_url: `https://github.com/owner/repo/pull/${number}`,
+  state: mergeCommit ? 'closed' : 'open',
+  merged: mergeCommit !== null,
+  merged_at: mergeCommit ? '2026-02-01T00:00:00Z' : null,
+  merge_commit_sha: mergeCommit
+});
+
+const mentionedBy = (number: number): GitHubTimelineEvent => ({
+  event: 'cross-referenced',
+  source: { issue: { pull_request: { url: `pulls/${number}`, html_url: `https://github.com/owner/repo/pull/${number}` } } }
+});
+
+const setIssue = (state: 'open' | 'closed', timeline: GitHubTimelineEvent[], pullRequests: GitHubPullRequest[]) => {
+  (getIssueFromUrl as jest.Mock).mockResolvedValue({ number: issueNumber, title: 'Fix it', state, assignees: [] });
+  (getIssueTimeline as jest.Mock).mockResolvedValue(timeline);
+  (getPullRequestFromUrl as jest.Mock).mockImplementation(async (url: string) =>
+    pullRequests.find(candidate => url === `pulls/${candidate.number}`));
+};
+
+describe('refreshBountiesForIssue', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+  
+  it('completes a bounty on the pull request whose merge closed the issue', async () => {
+    const bounty = createBounty({ status: 'pr_linked' });
+    setIssue('closed', [mentionedBy(1), mentionedBy(2), { event: 'closed', commit_id: 'merge-2' }], [
+      pullRequest(1, 'merge-1'),
+      pullRequest(2, 'merge-2')
+    ]);
+  
+    await refreshBountiesForIssue(bounty.issueUrl);
+  
+    expect(getBountyRecord(bounty.taskId)).toMatchObject({ status: 'completed', pullRequestUrl: 'https://github.com/owner/repo/pull/2' });
+  });
+  
+  it('does not complete a bounty on a merged pull request that only mentions a closed issue', async () => {
+    const bounty = createBounty({ status: 'pr_linked' });
+    setIssue('closed', [mentionedBy(1), { event: 'closed', commit_id: null }], [pullRequest(1, 'merge-1')]);
+  
+    await refreshBountiesForIssue(bounty.issueUrl);
+  
+    expect(getBountyRecord(bounty.taskId)).toMatchObject({ status: 'pr_linked', closedNotified: true });
+    expect(commentOnIssueUrl).toHaveBeenCalledWith(bounty.issueUrl, expect.stringContaining('closed without a merged pull request'));
+  });
+  
+  it('completes an expired bounty when a pull request merged after the deadline closes the issue', async () => {
+    const bounty = createBounty({ status: 'expired', deadline: '2026-01-02T00:00:00.000Z' });
+    setIssue('closed', [mentionedBy(1), { event: 'closed', commit_id: 'merge-1' }], [pullRequest(1, 'merge-1')]);
+  
+    await refreshBountiesForIssue(bounty.issueUrl);
+  
+    expect(getBountyRecord(bounty.taskId)?.status).toBe('completed');
+  });
+  
+  it('keeps an expired bounty expired while its issue is open, without repeating the notice', async () => {
+    const bounty = createBounty({ status: 'expired', deadline: '2026-01-02T00:00:00.000Z' });
+    setIssue('open', [mentionedBy(1)], [pullRequest(1, null)]);
+  
+    await refreshBountiesForIssue(bounty.issueUrl);
+  
+    expect(getBountyRecord(bounty.taskId)?.status).toBe('expired');
+    expect(commentOnIssueUrl).not.toHaveBeenCalled();
+  });
+  
+  it('stops following an expired bounty once its issue closes without completing it', async () => {
+    const bounty = createBounty({ status: 'expired', deadline: '2026-01-02T00:00:00.000Z' });
+    setIssue('closed', [{ event: 'closed', commit_id: null }], []);
+  
+    await refreshBountiesForIssue(bounty.issueUrl);
+    await refreshBountiesForIssue(bounty.issueUrl);
+  
+    expect(getBountyRecord(bounty.taskId)).toMatchObject({ status: 'expired', closedNotified: true });
+    expect(getIssueFromUrl).toHaveBeenCalledTimes(1);
+  });
+});
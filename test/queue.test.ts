@@ -0,0 +1,97 @@
+import { createJobQueue } from '../src/queue';
+
+// A promise settled from outside, to hold a job open until the test lets it finish
+const deferred = () => {
+  let resolve!: () => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<void>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+// Let every queued promise callback run
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+describe('createJobQueue', () => {
+  it('runs jobs for the same issue one at a time, in the order they were added', async () => {
+    const queue = createJobQueue('test', 5);
+    const events: string[] = [];
+    const first = deferred();
+  
+    const jobs = [
+      queue.add('issue-1', async () => {
+        events.push('first started');
+        await first.promise;
+        events.push('first done');
+      }),
+      queue.add('issue-1', async () => {
+        events.push('second');
+      }),
+      queue.add('issue-1', async () => {
+        events.push('third');
+      })
+    ];
+  
+    await settle();
+    expect(events).toEqual(['first started']);
+  
+    first.resolve();
+    await Promise.all(jobs);
+    expect(events).toEqual(['first started', 'first done', 'second', 'third']);
+  });
+  
+  it('runs jobs for different issues side by side', async () => {
+    const queue = createJobQueue('test', 5);
+    const started: string[] = [];
+    const blocker = deferred();
+  
+    const slow = queue.add('issue-1', async () => {
+      started.push('issue-1');
+      await blocker.promise;
+    });
+    const fast = queue.add('issue-2', async () => {
+      started.push('issue-2');
+    });
+  
+    await fast;
+    expect(started).toEqual(['issue-1', 'issue-2']);
+    blocker.resolve();
+    await slow;
+  });
+  
+  it('runs no more jobs at once than its concurrency', async () => {
+    const queue = createJobQueue('test', 2);
+    const blockers = [deferred(), deferred(), deferred()];
+    let running = 0;
+    let mostRunning = 0;
+  
+    const jobs = blockers.map((blocker, index) => queue.add(`issue-${index}`, async () => {
+      mostRunning = Math.max(mostRunning, ++running);
+      await blocker.promise;
+      running--;
+    }));
+  
+    await settle();
+    expect(running).toBe(2);
+    expect(queue.size()).toBe(3);
+  
+    blockers.forEach(blocker => blocker.resolve());
+    await Promise.all(jobs);
+    expect(mostRunning).toBe(2);
+    expect(queue.size()).toBe(0);
+  });
+  
+  it('keeps going after a failed job, passing its error to whoever added it', async () => {
+    const queue = createJobQueue('test', 1);
+    const failure = deferred();
+  
+    const failed = queue.add('issue-1', () => failure.promise);
+    const next = queue.add('issue-1', async () => 'ran');
+  
+    failure.reject(new Error('boom'));
+    await expect(failed).rejects.toThrow('boom');
+    await expect(next).resolves.toBe('ran');
+  });
+});
@@ -0,0 +1,112 @@
+import { Keypair } from '@solana/web3.js';
+import { BountyRecord, PendingTransaction } from '../src/types';
+import { connection } from '../src/solana';
+import { reconcileWallet } from '../src/reconcile';
+import { saveBountyRecord, saveCommandRecord, saveTransactionRecord } from '../src/store';
+
+const wallet = Keypair.generate().publicKey;
+const stranger = Keypair.generate().publicKey;
+
+jest.mock('../src/solana', () => ({
+  connection: { getSignaturesForAddress: jest.fn(), getTransaction: jest.fn(), getSignatureStatuses: jest.fn() }
+}));
+jest.mock('../src/signer', () => ({ getWalletPublicKey: () => wallet.toBase58() }));
+
+const mocked = connection as jest.Mocked<typeof connection>;
+const issueUrl = 'https://api.github.com/repos/owner/repo/issues/1';
+const now = new Date().toISOString();
+const blockTime = Math.floor(Date.now() / 1000);
+
+const bounty = (taskId: string, signature: string): BountyRecord => ({
+  taskId,
+  issueUrl,
+  commentId: 1,
+  requestedBy: 'alice',
+  amount: 10,
+  tokenAddress: 'mint',
+  tokenSymbol: 'USDC',
+  signature,
+  status: 'open',
+  createdAt: now,
+  updatedAt: now
+});
+
+const transaction = (signature: string, status: PendingTransaction['status'], statusCommentId?: number): PendingTransaction => ({
+  signature,
+  signedTransaction: 'dHg=',
+  recentBlockhash: 'blockhash',
+  kind: 'cancel',
+  status,
+  bounty: bounty(`task-${signature}`, 'create-sig'),
+  requestedBy: 'alice',
+  statusCommentId,
+  submittedAt: now
+});
+
+describe('reconcileWallet', () => {
+  beforeAll(() => {
+    // Funded and confirmed: nothing to report
+    saveBountyRecord(bounty('task-ok', 'ok-sig'));
+    saveTransactionRecord(transaction('ok-sig', 'confirmed', 10));
+    // Recorded as funded, but never landed
+    saveBountyRecord(bounty('task-lost', 'lost-sig'));
+    // Landed, but announced as failed
+    saveTransactionRecord(transaction('failed-sig', 'failed', 11));
+    // Landed and tracked, but never announced
+    saveTransactionRecord(transaction('silent-sig', 'pending'));
+    // Sent for a command the bot then lost track of
+    saveCommandRecord({ commentId: 2 }, { issueUrl, amount: 10, token: 'USDC', requestedBy: 'alice', status: 'submitted', signature: 'command-sig' });
+    // Stuck before sending anything
+    saveCommandRecord({ commentId: 3, origin: 'issue' }, { issueUrl, amount: 10, token: 'USDC', requestedBy: 'alice', status: 'processing' });
+  
+    const landed = ['ok-sig', 'failed-sig', 'silent-sig', 'command-sig', 'unknown-sig', 'received-sig'];
+    mocked.getSignaturesForAddress.mockResolvedValue([
+      ...landed.map(signature => ({ signature, slot: 1, err: null, memo: null, blockTime })),
+      { signature: 'reverted-sig', slot: 1, err: { InstructionError: [0, 'Custom'] }, memo: null, blockTime }
+    ]);
+    mocked.getTransaction.mockImplementation(async signature => ({
+      transaction: { message: { staticAccountKeys: [signature === 'unknown-sig' ? wallet : stranger] } }
+    }) as never);
+    mocked.getSignatureStatuses.mockImplementation(async signatures => ({
+      context: { slot: 1 },
+      value: signatures.map(signature => signature === 'lost-sig' ?
+        null :
+        { slot: 1, confirmations: null, err: null, confirmationStatus: 'finalized' as const })
+    }));
+  });
+  
+  it('reports wallet transactions no issue was told about', async () => {
+    const report = await reconcileWallet(100);
+  
+    expect(report).toMatchObject({ wallet: wallet.toBase58(), scanned: 7 });
+    expect(report.orphaned.map(({ signature, commentId, reason }) => ({ signature, commentId, reason }))).toEqual([
+      { signature: 'failed-sig', commentId: 1, reason: 'Landed on chain, but the bot announced it as failed' },
+      { signature: 'silent-sig', commentId: 1, reason: 'Tracked, but its status comment was never posted' },
+      { signature: 'command-sig', commentId: 2, reason: 'Sent for a submitted command, but never tracked or announced' },
+      { signature: 'unknown-sig', commentId: undefined, reason: 'Sent from the bot wallet, but unknown to the bot' }
+    ]);
+  });
+  
+  it('reports records that say funds moved without a confirmed transaction', async () => {
+    const { unconfirmed } = await reconcileWallet(100);
+  
+    expect(unconfirmed).toEqual([
+      { kind: 'bounty', id: 'task-lost', issueUrl, signature: 'lost-sig', reason: 'Transaction not found on chain' },
+      expect.objectContaining({
+        kind: 'command',
+        id: 'comment:2',
+        signature: 'command-sig',
+        reason: expect.stringMatching(/^Transaction confirmed on chain, but never recorded as a bounty; command submitted since /)
+      }),
+      expect.objectContaining({ kind: 'command', id: 'issue:3', reason: expect.stringMatching(/^No transaction was sent; command processing since /) })
+    ]);
+  });
+  
+  it('checks every signature in one batch', async () => {
+    mocked.getSignatureStatuses.mockClear();
+  
+    await reconcileWallet(100);
+  
+    expect(mocked.getSignatureStatuses).toHaveBeenCalledTimes(1);
+  });
+});
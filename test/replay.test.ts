@@ -0,0 +1,35 @@
+import { CommandRecord } from '../src/types';
+import { getReplayBlocker } from '../src/replay';
+
+const command = (update: Partial<CommandRecord>): CommandRecord => ({
+  commentId: 1,
+  issueUrl: 'https://api.github.com/repos/owner/repo/issues/1',
+  amount: 10,
+  token: 'USDC',
+  requestedBy: 'alice',
+  status: 'failed',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ...update
+});
+
+describe('getReplayBlocker', () => {
+  it('retries a command that failed before sending funds', () => {
+    expect(getReplayBlocker(command({ status: 'failed' }))).toBeNull();
+  });
+  
+  it('refuses a processing command unless forced', () => {
+    expect(getReplayBlocker(command({ status: 'processing' }))).toMatch(/retrying could pay twice/);
+    expect(getReplayBlocker(command({ status: 'processing' }), true)).toBeNull();
+  });
+  
+  it('refuses a command that sent a transaction, even when forced', () => {
+    expect(getReplayBlocker(command({ status: 'processing', signature: 'sig' }), true)).toMatch(/already sent transaction sig/);
+  });
+  
+  it('refuses settled commands and commands waiting for approval', () => {
+    for (const status of ['confirmed', 'rejected', 'pending_approval'] as const) {
+      expect(getReplayBlocker(command({ status }), true)).toBe(`Command is ${status}; there is nothing to retry`);
+    }
+  });
+});
@@ -0,0 +1,67 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// The config file is read when the settings module loads, so it has to exist before the import
+const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'gibwork-bot-settings-')), 'config.yml');
+fs.writeFileSync(file, 'defaults:\n  visibility: public\n');
+process.env.CONFIG_FILE = file;
+
+const { getRepoSettings, reloadSettings } = require('../src/settings') as typeof import('../src/settings');
+const { logger } = require('../src/logger') as typeof import('../src/logger');
+
+// Write a config file and reload it, returning the error that made it invalid, if any
+const reloadWith = (yaml: string): string | undefined => {
+  const error = jest.spyOn(logger, 'error').mockImplementation(() => undefined);
+  fs.writeFileSync(file, yaml);
+  const reloaded = reloadSettings();
+  const message = (error.mock.calls[0]?.[1]?.error as Error | undefined)?.message;
+  error.mockRestore();
+  return reloaded ? undefined : message;
+};
+
+describe('config file validation', () => {
+  it('loads a valid file', () => {
+    expect(reloadWith('defaults:\n  visibility: private\nrepositories:\n  owner/repo:\n    tags: [bug]\n')).toBeUndefined();
+    expect(getRepoSettings('owner/repo')).toMatchObject({ visibility: 'private', tags: ['bug'] });
+  });
+  
+  it('names an unknown setting with its line and column', () => {
+    expect(reloadWith('defaults:\n  visibilty: public\n')).toBe(
+      `${file}: defaults.visibilty (line 2, column 14) is not a known setting; expected one of ` +
+      'authorizedUsers, allowedTokens, visibility, requirements, tags, templates'
+    );
+  });
+  
+  it('points at an invalid value inside a repository', () => {
+    expect(reloadWith('repositories:\n  owner/repo:\n    visibility: hidden\n')).toBe(
+      `${file}: repositories["owner/repo"].visibility (line 3, column 17) must be either 'public' or 'private'`
+    );
+  });
+  
+  it('points at an invalid list item', () => {
+    expect(reloadWith('defaults:\n  allowedTokens:\n    - USDC\n    - ""\n')).toBe(
+      `${file}: defaults.allowedTokens[1] (line 4, column 7) must be a non-empty string`
+    );
+  });
+  
+  it('names an unknown template placeholder', () => {
+    expect(reloadWith('defaults:\n  templates:\n    title: "{name}"\n')).toBe(
+      `${file}: defaults.templates.title (line 3, column 12) has unknown placeholder {name}; ` +
+      'use {title}, {body}, {url}, {repository}, {amount}, {token}, {requestedBy}'
+    );
+  });
+  
+  it('points at the settings of a badly named repository', () => {
+    expect(reloadWith('repositories:\n  owner:\n    tags: [bug]\n')).toBe(
+      `${file}: repositories.owner (line 3, column 5) must be named as owner/repo, owner/* or owner/topic:<topic>`
+    );
+  });
+  
+  it('reports YAML syntax errors and keeps the previous settings', () => {
+    reloadWith('defaults:\n  visibility: public\n');
+  
+    expect(reloadWith('defaults:\n  visibility: [public\n')).toMatch(new RegExp(`^${file}: `));
+    expect(getRepoSettings('owner/repo').visibility).toBe('public');
+  });
+});
@@ -0,0 +1,19 @@
+// Environment for the modules under test: a throwaway state file and audit log per test file,
+// and no network access needed to load the config
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gibwork-bot-test-'));
+
+Object.assign(process.env, {
+  GITHUB_TOKEN: 'test-token',
+  GITHUB_WEBHOOK_SECRET: 'test-secret',
+  WALLET_PRIVATE_KEY: 'test-key',
+  BOT_MODE: 'polling',
+  REPOSITORIES: 'owner/repo,owner/other',
+  STATE_FILE: path.join(dir, 'state.jsonl'),
+  AUDIT_LOG_FILE: path.join(dir, 'audit.jsonl'),
+  LOG_LEVEL: 'error',
+  USER_DAILY_BUDGET: 'USDC=100'
+});
@@ -0,0 +1,49 @@
+import fs from 'fs';
+import { STATE_FILE } from '../src/config';
+import { acquireStateLock, findCommandRecord, releaseStateLock, saveCommandRecord } from '../src/store';
+
+const lockFile = `${STATE_FILE}.lock`;
+
+describe('acquireStateLock', () => {
+  afterEach(() => {
+    releaseStateLock();
+    fs.rmSync(lockFile, { force: true });
+  });
+  
+  it('refuses while another running process holds the lock', () => {
+    fs.writeFileSync(lockFile, `${process.ppid}\nthe bot\n`);
+  
+    expect(() => acquireStateLock('cli:test')).toThrow(`${STATE_FILE} is in use by the bot (pid ${process.ppid}); stop it first`);
+  });
+  
+  it('takes over a lock left by a process that is gone', () => {
+    fs.writeFileSync(lockFile, '999999999\nthe bot\n');
+  
+    acquireStateLock('cli:test');
+    expect(fs.readFileSync(lockFile, 'utf8')).toBe(`${process.pid}\ncli:test\n`);
+  });
+  
+  it('releases only its own lock', () => {
+    acquireStateLock('cli:test');
+    releaseStateLock();
+    expect(fs.existsSync(lockFile)).toBe(false);
+  
+    fs.writeFileSync(lockFile, `${process.ppid}\nthe bot\n`);
+    releaseStateLock();
+    expect(fs.existsSync(lockFile)).toBe(true);
+  });
+});
+
+describe('findCommandRecord', () => {
+  it('tells apart commands from different origins that share an ID', () => {
+    saveCommandRecord({ commentId: 42, origin: 'issue' }, { status: 'failed' });
+    saveCommandRecord({ commentId: 43 }, { status: 'failed' });
+    saveCommandRecord({ commentId: 43, origin: 'label' }, { status: 'processing' });
+  
+    expect(findCommandRecord('42')).toMatchObject({ origin: 'issue', status: 'failed' });
+    expect(findCommandRecord('label:43')).toMatchObject({ origin: 'label', status: 'processing' });
+    expect(findCommandRecord('comment:43')).toMatchObject({ status: 'failed' });
+    expect(() => findCommandRecord('43')).toThrow('More than one command has ID 43; pass one of comment:43, label:43');
+    expect(findCommandRecord('44')).toBeUndefined();
+  });
+});
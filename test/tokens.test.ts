@@ -0,0 +1,29 @@
+import { findKnownToken, validateTokenAmount } from '../src/tokens';
+
+const usdc = findKnownToken('USDC')!;
+const bonk = findKnownToken('BONK')!;
+
+describe('validateTokenAmount', () => {
+  it('accepts amounts within the token\'s decimals', () => {
+    expect(() => validateTokenAmount(50, usdc)).not.toThrow();
+    expect(() => validateTokenAmount(0.1, usdc)).not.toThrow();
+    expect(() => validateTokenAmount(0.000001, usdc)).not.toThrow();
+    expect(() => validateTokenAmount(123456.12345, bonk)).not.toThrow();
+  });
+  
+  it('rejects amounts finer than the token\'s decimals', () => {
+    expect(() => validateTokenAmount(0.1234567, usdc)).toThrow('USDC supports at most 6 decimal places.');
+    expect(() => validateTokenAmount(0.000001, bonk)).toThrow('BONK supports at most 5 decimal places.');
+  });
+  
+  it('rejects tiny amounts that print in exponent notation', () => {
+    expect(String(1e-7)).toBe('1e-7');
+    expect(() => validateTokenAmount(1e-7, usdc)).toThrow('USDC supports at most 6 decimal places.');
+    expect(() => validateTokenAmount(1.5e-7, usdc)).toThrow('USDC supports at most 6 decimal places.');
+  });
+  
+  it('rejects amounts that are not positive', () => {
+    expect(() => validateTokenAmount(0, usdc)).toThrow('Bounty amount must be greater than zero.');
+    expect(() => validateTokenAmount(NaN, usdc)).toThrow('Bounty amount must be greater than zero.');
+  });
+});
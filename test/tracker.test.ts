@@ -0,0 +1,118 @@
+import { BountyRecord, PendingTransaction } from '../src/types';
+import { connection } from '../src/solana';
+import { commentOnIssueUrl } from '../src/github';
+import { reserveBudget } from '../src/budgets';
+import { findKnownToken } from '../src/tokens';
+import { checkPendingTransactions, recordSignedTransaction } from '../src/tracker';
+import { getCommandRecord, getEntry, saveCommandRecord, saveTransactionRecord } from '../src/store';
+
+jest.mock('../src/solana', () => ({
+  connection: { getSignatureStatus: jest.fn(), isBlockhashValid: jest.fn(), sendRawTransaction: jest.fn() }
+}));
+jest.mock('../src/github', () => ({
+  ...jest.requireActual('../src/github'),
+  commentOnIssueUrl: jest.fn(),
+  updateComment: jest.fn()
+}));
+jest.mock('../src/indicators', () => ({ showCommandState: jest.fn(), updateFundedLabel: jest.fn() }));
+
+const mocked = connection as jest.Mocked<typeof connection>;
+const issueUrl = 'https://api.github.com/repos/owner/repo/issues/1';
+const signedTransaction = Buffer.from('signed').toString('base64');
+
+const bounty = (commentId: number, signature: string): BountyRecord => ({
+  taskId: `task-${commentId}`,
+  issueUrl,
+  commentId,
+  requestedBy: 'alice',
+  amount: 10,
+  tokenAddress: findKnownToken('USDC')!.mintAddress,
+  tokenSymbol: 'USDC',
+  signature,
+  status: 'open',
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString()
+});
+
+// Save a transaction as the bot would have, with its command and budget reservation
+const saveTransaction = (commentId: number, status: PendingTransaction['status']): string => {
+  const signature = `sig-${commentId}`;
+  reserveBudget({ commentId }, 'owner/repo', 'alice', findKnownToken('USDC')!, 10);
+  saveCommandRecord({ commentId }, { issueUrl, amount: 10, token: 'USDC', requestedBy: 'alice', status: 'submitted', signature });
+  saveTransactionRecord({
+    signature,
+    signedTransaction,
+    recentBlockhash: 'blockhash',
+    kind: 'create',
+    status,
+    bounty: bounty(commentId, signature),
+    requestedBy: 'alice',
+    submittedAt: new Date().toISOString()
+  });
+  return signature;
+};
+
+const getTransaction = (signature: string) => getEntry<PendingTransaction>('transaction', signature)!;
+
+describe('checkPendingTransactions', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mocked.getSignatureStatus.mockResolvedValue({ context: { slot: 1 }, value: null });
+    mocked.isBlockhashValid.mockResolvedValue({ context: { slot: 1 }, value: true });
+    (commentOnIssueUrl as jest.Mock).mockResolvedValue({ id: 99 });
+  });
+  
+  it('rebroadcasts an unseen transaction while its blockhash is valid', async () => {
+    const signature = saveTransaction(101, 'pending');
+    
+    await checkPendingTransactions();
+    
+    expect(mocked.sendRawTransaction).toHaveBeenCalledWith(Buffer.from('signed'), { skipPreflight: true, maxRetries: 0 });
+    expect(getTransaction(signature).status).toBe('pending');
+  });
+  
+  it('expires an unseen transaction once its blockhash is no longer valid and releases the budget', async () => {
+    const signature = saveTransaction(102, 'pending');
+    mocked.isBlockhashValid.mockResolvedValue({ context: { slot: 1 }, value: false });
+    
+    await checkPendingTransactions();
+    
+    expect(mocked.sendRawTransaction).not.toHaveBeenCalled();
+    expect(getTransaction(signature).status).toBe('expired');
+    expect(getCommandRecord({ commentId: 102 })?.status).toBe('failed');
+    expect(getEntry('spend', '102')).toBeUndefined();
+  });
+  
+  it('settles a transaction confirmed on chain', async () => {
+    const signature = saveTransaction(103, 'pending');
+    mocked.getSignatureStatus.mockResolvedValue({
+      context: { slot: 1 },
+      value: { slot: 1, confirmations: 1, err: null, confirmationStatus: 'confirmed' }
+    });
+    
+    await checkPendingTransactions();
+    
+    expect(getTransaction(signature).status).toBe('confirmed');
+    expect(getCommandRecord({ commentId: 103 })?.status).toBe('confirmed');
+    expect(getEntry<BountyRecord>('bounty', 'task-103')?.signature).toBe(signature);
+  });
+  
+  it('resumes a transaction left sending by a crash', async () => {
+    const signature = saveTransaction(104, 'sending');
+    
+    await checkPendingTransactions();
+    
+    expect(getTransaction(signature)).toMatchObject({ status: 'pending', statusCommentId: 99 });
+    expect(getCommandRecord({ commentId: 104 })).toMatchObject({ status: 'submitted', signature });
+  });
+  
+  it('leaves a transaction this process is still sending alone', async () => {
+    const signature = 'sig-105';
+    recordSignedTransaction('create', { signature, signedTransaction, recentBlockhash: 'blockhash' }, bounty(105, signature), 'alice');
+    
+    await checkPendingTransactions();
+    
+    expect(mocked.getSignatureStatus).not.toHaveBeenCalledWith(signature, expect.anything());
+    expect(getTransaction(signature).status).toBe('sending');
+  });
+});
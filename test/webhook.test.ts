@@ -0,0 +1,45 @@
+import crypto from 'crypto';
+import { getCommentFromEvent, verifySignature } from '../src/webhook';
+
+const body = Buffer.from('{"action":"created"}');
+const sign = (payload: Buffer, secret = 'test-secret') =>
+  `sha256=${crypto.createHmac('sha256', secret).update(payload).digest('hex')}`;
+
+describe('verifySignature', () => {
+  it('accepts a signature made with the webhook secret', () => {
+    expect(verifySignature(body, sign(body))).toBe(true);
+  });
+  
+  it('rejects a signature made with another secret or over another body', () => {
+    expect(verifySignature(body, sign(body, 'other-secret'))).toBe(false);
+    expect(verifySignature(Buffer.from('{"action":"deleted"}'), sign(body))).toBe(false);
+  });
+  
+  it('rejects missing, malformed and truncated signatures', () => {
+    expect(verifySignature(body, undefined)).toBe(false);
+    expect(verifySignature(body, sign(body).replace('sha256=', 'sha1='))).toBe(false);
+    expect(verifySignature(body, sign(body).slice(0, -1))).toBe(false);
+  });
+});
+
+describe('getCommentFromEvent', () => {
+  const comment = { id: 1, body: '/bounty 10 USDC', user: { login: 'alice' }, issue_url: 'https://api.github.com/repos/owner/repo/issues/1' };
+  
+  it('returns created and edited comments', () => {
+    expect(getCommentFromEvent('issue_comment', { action: 'created', comment })).toEqual(comment);
+    expect(getCommentFromEvent('issue_comment', { action: 'deleted', comment })).toBeNull();
+  });
+  
+  it('treats an issue body as a comment by the issue author', () => {
+    const issue = { id: 2, body: '/bounty 10 USDC', user: { login: 'bob' }, url: comment.issue_url, created_at: 'a', updated_at: 'b' };
+  
+    expect(getCommentFromEvent('issues', { action: 'opened', issue })).toMatchObject({ id: 2, issue_url: comment.issue_url, isIssueBody: true });
+  });
+  
+  it('ignores payloads without the fields it needs', () => {
+    expect(getCommentFromEvent('issue_comment', null)).toBeNull();
+    expect(getCommentFromEvent('issue_comment', { action: 'created' })).toBeNull();
+    expect(getCommentFromEvent('issue_comment', { action: 'created', comment: { id: '1' } })).toBeNull();
+    expect(getCommentFromEvent('issues', { action: 'opened', issue: [] })).toBeNull();
+  });
+});